@@ -1,17 +1,54 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { createGame, gameInstance } from './game/phaserGame';
 import { GameScene } from './game/scenes/GameScene';
-import { Difficulty, GameEvent, Theme } from './types';
-import { RotateCcw, Flag, Play, HelpCircle, Trophy, Undo, SkipForward, AlertTriangle, Clock, Gauge, X, Check, Zap, Snowflake, Palette, Building2 } from 'lucide-react';
+import { EditorScene } from './game/scenes/EditorScene';
+import { PuzzleGenerator } from './game/systems/PuzzleGenerator';
+import { SeededRandom } from './game/systems/SeededRandom';
+import { ProfileStore } from './game/storage/ProfileStore';
+import { SavedGame, SaveGameStore, SaveSlot } from './game/storage/SaveGameStore';
+import { PuzzleFile, PuzzleFormat, PuzzleFormatType } from './game/systems/PuzzleFormat';
+import StatsModal from './components/StatsModal';
+import PuzzleIOModal from './components/PuzzleIOModal';
+import BoardDescription from './components/BoardDescription';
+import DailyModal from './components/DailyModal';
+import { DailyStore } from './game/storage/DailyStore';
+import CampaignModal from './components/CampaignModal';
+import { Campaign, LevelRef } from './game/campaign/Campaign';
+import { CampaignStore } from './game/storage/CampaignStore';
+import EditorPanel from './components/EditorPanel';
+import CustomDifficultyForm from './components/CustomDifficultyForm';
+import { formatTime } from './utils/time';
+import { BoardSnapshot, CustomDifficulty, CUSTOM_DIFFICULTY_DEFAULT, DEFAULT_MAX_BRIDGES, Difficulty, EditorStatus, EditorTool, GameEvent, Theme } from './types';
+import { RotateCcw, Flag, Play, HelpCircle, Trophy, Undo, Redo, SkipForward, AlertTriangle, Clock, Gauge, X, Check, Zap, Snowflake, Palette, Building2, Hash, Copy, Lightbulb, ListChecks, BarChart3, FileText, Pencil, CalendarDays, LogOut, Map as MapIcon, Star, BookOpen, PencilRuler } from 'lucide-react';
+
+// Solves this session, per preset plus custom boards
+const EMPTY_SESSION_STATS = { [Difficulty.EASY]: 0, [Difficulty.MEDIUM]: 0, [Difficulty.HARD]: 0, custom: 0 };
 
 const App: React.FC = () => {
-  const [gameState, setGameState] = useState<'START' | 'INSTRUCTIONS' | 'PLAYING' | 'VICTORY' | 'FINISHED'>('START');
+  const [gameState, setGameState] = useState<'START' | 'INSTRUCTIONS' | 'PLAYING' | 'VICTORY' | 'FINISHED' | 'EDITING'>('START');
+  const [mode, setMode] = useState<'SESSION' | 'DAILY' | 'CAMPAIGN' | 'EDITOR'>('SESSION'); // Anything but SESSION is untimed; EDITOR is a play-test
   const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.EASY);
+  const [isCustom, setIsCustom] = useState(false); // Generate from customDifficulty instead of the preset
+  const [customDifficulty, setCustomDifficulty] = useState<CustomDifficulty>(CUSTOM_DIFFICULTY_DEFAULT);
+  const activeCustom = isCustom ? customDifficulty : undefined;
   const [theme, setTheme] = useState<Theme>(Theme.POWER_GRID);
   
   // Session Settings
   const [sessionMinutes, setSessionMinutes] = useState<number>(5);
   const [timeLeft, setTimeLeft] = useState(0);
+  const [seedInput, setSeedInput] = useState('');
+  const [autoCheck, setAutoCheck] = useState(false);
+  const [annotationMode, setAnnotationMode] = useState(false);
+  
+  // Current Puzzle
+  const [puzzleSeed, setPuzzleSeed] = useState('');
+  const [puzzleCustom, setPuzzleCustom] = useState<CustomDifficulty | null>(null); // Settings the current board was generated from
+  const [importedPuzzle, setImportedPuzzle] = useState<PuzzleFile | null>(null); // Set while playing a pasted board
+  const [puzzleSeconds, setPuzzleSeconds] = useState(0);
+  const [campaignLevel, setCampaignLevel] = useState<LevelRef | null>(null);
+  const [levelIntro, setLevelIntro] = useState<string | null>(null);
+  const [fallbackNotice, setFallbackNotice] = useState(false); // The settings produced no board, so a stand-in is on screen
+  const [lastStars, setLastStars] = useState(0); // Stars earned by the last campaign solve
   
   // UI State
   const [showRules, setShowRules] = useState(true);
@@ -19,23 +56,42 @@ const App: React.FC = () => {
   const [showDiffSelector, setShowDiffSelector] = useState(false);
   const [showThemeSelector, setShowThemeSelector] = useState(false);
   const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+  const [hint, setHint] = useState<{ kind: 'MOVE' | 'MISTAKE', reason: string } | null>(null);
+  const [checkResult, setCheckResult] = useState<{ wrongCount: number } | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [showPuzzleIO, setShowPuzzleIO] = useState(false);
+  const [showDaily, setShowDaily] = useState(false);
+  const [showCampaign, setShowCampaign] = useState(false);
+  const [exportText, setExportText] = useState('');
+  
+  // Puzzle Editor
+  const [editorStatus, setEditorStatus] = useState<EditorStatus | null>(null);
+  const [editorTool, setEditorTool] = useState<EditorTool>('HOUSES');
+  
+  // Screen Reader Mirror
+  const [announcement, setAnnouncement] = useState('');
+  const [board, setBoard] = useState<BoardSnapshot | null>(null);
+  
+  // Lifetime Profile
+  const [profile, setProfile] = useState(() => ProfileStore.load());
+  const [savedGame, setSavedGame] = useState(() => SaveGameStore.load());
+  const [savedDaily, setSavedDaily] = useState(() => SaveGameStore.load('DAILY'));
+  const [daily, setDaily] = useState(() => DailyStore.load());
+  const [campaign, setCampaign] = useState(() => CampaignStore.load());
   
   // Session Stats
-  const [stats, setStats] = useState({
-    [Difficulty.EASY]: 0,
-    [Difficulty.MEDIUM]: 0,
-    [Difficulty.HARD]: 0,
-  });
+  const [stats, setStats] = useState(EMPTY_SESSION_STATS);
 
   const timerIntervalRef = useRef<number | null>(null);
   
   // Ref to hold latest state for the Phaser event callback (avoids stale closures)
-  const stateRef = useRef({ difficulty, timeLeft, gameState });
+  const stateRef = useRef({ difficulty, theme, timeLeft, gameState, puzzleSeconds, puzzleCustom, mode });
 
   // Sync state to ref
   useEffect(() => {
-    stateRef.current = { difficulty, timeLeft, gameState };
-  }, [difficulty, timeLeft, gameState]);
+    stateRef.current = { difficulty, theme, timeLeft, gameState, puzzleSeconds, puzzleCustom, mode };
+  }, [difficulty, theme, timeLeft, gameState, puzzleSeconds, puzzleCustom, mode]);
 
   // Initialize Game
   useEffect(() => {
@@ -45,6 +101,7 @@ const App: React.FC = () => {
     game.events.on('ready', () => {
        const runningScene = game.scene.keys['GameScene'] as GameScene;
        runningScene.onEvent = handleGameEvent;
+       (game.scene.keys['EditorScene'] as EditorScene).onEvent = handleGameEvent;
     });
 
     return () => {
@@ -53,16 +110,19 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Timer only runs when explicitly PLAYING and no popups are open
+  const isPaused = showRules || showReportPopup || showDiffSelector || showThemeSelector || showPuzzleIO || gameState !== 'PLAYING';
+  const isEditorPaused = showRules || showPuzzleIO || gameState !== 'EDITING';
+
   // Timer Logic: Pause if any modal is open or game is not playing
   useEffect(() => {
-    // Timer only runs when explicitly PLAYING and no popups are open
-    const isPaused = showRules || showReportPopup || showDiffSelector || showThemeSelector || gameState !== 'PLAYING';
-
-    if (!isPaused && timeLeft > 0) {
+    // Daily and campaign puzzles have no session clock; only the puzzle time counts up
+    if (!isPaused && (timeLeft > 0 || mode !== 'SESSION')) {
       if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
       
       timerIntervalRef.current = window.setInterval(() => {
         setTimeLeft(prev => Math.max(0, prev - 1));
+        setPuzzleSeconds(prev => prev + 1);
       }, 1000);
     } else {
       if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
@@ -71,32 +131,136 @@ const App: React.FC = () => {
     return () => {
       if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
     };
-  }, [gameState, showRules, showReportPopup, showDiffSelector, showThemeSelector]); 
+  }, [gameState, mode, showRules, showReportPopup, showDiffSelector, showThemeSelector, showPuzzleIO]); 
+
+  // Board keyboard controls are ignored while the board is paused or covered
+  useEffect(() => {
+    const scene = gameInstance?.scene.getScene('GameScene') as GameScene;
+    if (scene) {
+      scene.events.emit('SET_INPUT_PAUSED', isPaused);
+    }
+    const editor = gameInstance?.scene.getScene('EditorScene') as EditorScene;
+    if (editor) {
+      editor.events.emit('SET_INPUT_PAUSED', isEditorPaused);
+    }
+  }, [isPaused, isEditorPaused]);
 
   // Check for Session End
   useEffect(() => {
-    if (timeLeft === 0 && gameState === 'PLAYING') {
+    if (timeLeft === 0 && gameState === 'PLAYING' && mode === 'SESSION') {
       setGameState('FINISHED');
+      SaveGameStore.clear();
+      setSavedGame(null);
+    }
+  }, [timeLeft, gameState, mode]);
+
+  // Mirror the clock into the scene so it is saved along with the board
+  useEffect(() => {
+    if (gameState !== 'PLAYING') return;
+    const scene = gameInstance?.scene.getScene('GameScene') as GameScene;
+    if (scene) {
+      scene.events.emit('TIMER_TICK', { timeLeft, puzzleSeconds });
     }
-  }, [timeLeft, gameState]);
+  }, [timeLeft, puzzleSeconds]);
+
+  // Keyboard Shortcuts: Ctrl+Z undo, Ctrl+Shift+Z redo (Cmd on macOS)
+  useEffect(() => {
+    const isBlocked = showRules || showReportPopup || showDiffSelector || showThemeSelector || showPuzzleIO || showStats;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isBlocked || gameState !== 'PLAYING' || !(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // Text fields keep their own undo
+      const target = e.target as HTMLElement | null;
+      if (target?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [gameState, showRules, showReportPopup, showDiffSelector, showThemeSelector, showPuzzleIO, showStats]);
 
   const handleGameEvent = (event: GameEvent) => {
     if (event.type === 'PUZZLE_SOLVED') {
-      const { difficulty: currentDifficulty } = stateRef.current;
+      const { difficulty: currentDifficulty, theme: currentTheme, puzzleSeconds: seconds, puzzleCustom: currentCustom, mode: currentMode } = stateRef.current;
       
       setGameState('VICTORY');
+      // Imported, campaign and custom boards have no real difficulty, so they stay out of lifetime stats
+      const levelRef = Campaign.parseLevelSeed(event.payload.seed);
+      if (levelRef) {
+        const stars = Campaign.getStars(Campaign.getLevel(levelRef)!, seconds, event.payload.hintsUsed);
+        setCampaign(CampaignStore.recordSolve(levelRef, seconds, stars));
+        setLastStars(stars);
+        return;
+      }
+      if (event.payload.seed && !currentCustom) {
+        setProfile(ProfileStore.recordSolve({
+          difficulty: currentDifficulty,
+          theme: currentTheme,
+          seed: event.payload.seed,
+          seconds,
+          undoCount: event.payload.undoCount,
+          hintsUsed: event.payload.hintsUsed,
+          solvedAt: new Date().toISOString(),
+        }));
+      }
+      // Only a game started as the daily counts; a daily seed typed into a session doesn't
+      const dailyDay = currentMode === 'DAILY' ? PuzzleGenerator.getDailyDay(event.payload.seed) : null;
+      if (dailyDay) {
+        setDaily(DailyStore.recordSolve({
+          day: dailyDay,
+          difficulty: currentDifficulty,
+          seconds,
+          solvedAt: new Date().toISOString(),
+        }));
+      }
+      const statsKey = currentCustom ? 'custom' : currentDifficulty;
       setStats(prev => ({
         ...prev,
-        [currentDifficulty]: prev[currentDifficulty] + 1
+        [statsKey]: prev[statsKey] + 1
       }));
     } else if (event.type === 'HISTORY_UPDATE') {
       setCanUndo(event.payload.canUndo);
+      setCanRedo(event.payload.canRedo);
+      setCheckResult(null);
+    } else if (event.type === 'HINT') {
+      setHint(event.payload);
+    } else if (event.type === 'CHECK_RESULT') {
+      setCheckResult(event.payload);
+    } else if (event.type === 'PUZZLE_EXPORTED') {
+      setExportText(event.payload.text);
+    } else if (event.type === 'ANNOUNCE') {
+      setAnnouncement(event.payload.message);
+    } else if (event.type === 'BOARD_UPDATE') {
+      setBoard(event.payload);
+    } else if (event.type === 'EDITOR_UPDATE') {
+      setEditorStatus(event.payload);
+    } else if (event.type === 'GENERATION_FALLBACK') {
+      // The stand-in board has no ID of its own; it replays like a pasted board
+      setPuzzleSeed('');
+      setPuzzleCustom(null);
+      setImportedPuzzle(event.payload.board);
+      setFallbackNotice(true);
     }
   };
 
   const handleStartSession = () => {
-    setStats({ [Difficulty.EASY]: 0, [Difficulty.MEDIUM]: 0, [Difficulty.HARD]: 0 });
-    setTimeLeft(sessionMinutes * 60);
+    // A pasted puzzle ID carries its own difficulty
+    if (seedInput.trim()) {
+      const parsed = PuzzleGenerator.parsePuzzleId(seedInput);
+      if (parsed.difficulty) {
+        setDifficulty(parsed.difficulty);
+        setIsCustom(false);
+      }
+      if (parsed.custom) {
+        setCustomDifficulty(parsed.custom);
+        setIsCustom(true);
+      }
+    }
+    setMode('SESSION');
+    setStats(EMPTY_SESSION_STATS);
+    startClock(sessionMinutes * 60);
     // Transition to instructions first, do not start game or timer yet
     setGameState('INSTRUCTIONS');
     setShowRules(false);
@@ -105,19 +269,218 @@ const App: React.FC = () => {
   const handleBeginPlay = () => {
     setGameState('PLAYING');
     // Start the first puzzle only after instructions are acknowledged
-    launchPuzzle(difficulty, theme);
+    const typedSeed = seedInput.trim() ? PuzzleGenerator.parsePuzzleId(seedInput).seed : undefined;
+    launchPuzzle(difficulty, theme, typedSeed, activeCustom);
   }
 
-  const launchPuzzle = (diff: Difficulty, thm: Theme) => {
+  // Sets the session clock in React and in the scene, which saves it with the first board
+  const startClock = (seconds: number) => {
+    setTimeLeft(seconds);
+    const scene = gameInstance?.scene.getScene('GameScene') as GameScene;
+    if (scene) {
+      scene.events.emit('SET_SESSION_TIME', seconds);
+    }
+  };
+
+  const handleResume = (saved: SavedGame, saveSlot: SaveSlot) => {
+    const levelRef = Campaign.parseLevelSeed(saved.seed);
+    setMode(saveSlot === 'DAILY' ? 'DAILY' : levelRef ? 'CAMPAIGN' : 'SESSION');
+    setCampaignLevel(levelRef);
+    setLevelIntro(levelRef ? Campaign.getIntro(Campaign.getLevel(levelRef)!, saved.theme) : null);
+    setFallbackNotice(false);
+    setDifficulty(saved.difficulty);
+    setIsCustom(!!saved.custom);
+    if (saved.custom) setCustomDifficulty(saved.custom);
+    setPuzzleCustom(saved.custom ?? null);
+    setTheme(saved.theme);
+    setStats(EMPTY_SESSION_STATS);
+    setTimeLeft(saved.timeLeft);
+    setPuzzleSeed(levelRef ? '' : saved.seed);
+    setImportedPuzzle(saved.seed && !levelRef ? null : {
+      width: saved.width,
+      height: saved.height,
+      maxBridges: saved.maxBridges,
+      diagonal: saved.diagonal,
+      obstacles: saved.obstacles,
+      capacity: saved.capacity,
+      nodes: saved.nodes,
+      edges: [],
+    });
+    setPuzzleSeconds(saved.puzzleSeconds);
+    setHint(null);
+    setCheckResult(null);
+    setShowRules(false);
+    setGameState('PLAYING');
+
+    const scene = gameInstance?.scene.getScene('GameScene') as GameScene;
+    if (scene) {
+      scene.events.emit('SET_AUTO_CHECK', autoCheck);
+      scene.events.emit('RESUME_GAME', { saved, saveSlot });
+    }
+  };
+
+  const launchPuzzle = (diff: Difficulty, thm: Theme, seed: string = SeededRandom.createSeed(), custom?: CustomDifficulty, saveSlot: SaveSlot = 'GAME') => {
+    setPuzzleSeed(seed);
+    setPuzzleCustom(custom ?? null);
+    setImportedPuzzle(null);
+    setLevelIntro(null);
+    setFallbackNotice(false);
+    setPuzzleSeconds(0);
+    setHint(null);
+    setCheckResult(null);
+    const scene = gameInstance?.scene.getScene('GameScene') as GameScene;
+    if (scene) {
+      scene.events.emit('SET_AUTO_CHECK', autoCheck);
+      scene.events.emit('START_GAME', { difficulty: diff, theme: thm, seed, custom, saveSlot });
+    }
+  };
+
+  // Campaign levels pass their level seed; the ID pill stays hidden as for pasted boards
+  const launchImportedPuzzle = (puzzle: PuzzleFile, thm: Theme, seed: string = '', saveSlot: SaveSlot | null = 'GAME') => {
+    setPuzzleSeed('');
+    setPuzzleCustom(null);
+    setImportedPuzzle(puzzle);
+    setLevelIntro(null);
+    setFallbackNotice(false);
+    setPuzzleSeconds(0);
+    setHint(null);
+    setCheckResult(null);
+    const scene = gameInstance?.scene.getScene('GameScene') as GameScene;
+    if (scene) {
+      scene.events.emit('SET_AUTO_CHECK', autoCheck);
+      scene.events.emit('START_GAME', { difficulty, theme: thm, seed, puzzle, saveSlot });
+    }
+  };
+
+  const handleRequestExport = (format: PuzzleFormatType, includeProgress: boolean) => {
+    // The editor's design is already mirrored here; "progress" is the solution drawn in
+    if (gameState === 'EDITING') {
+      const isPlayable = editorStatus && editorStatus.issues.length === 0 && editorStatus.solutionCount === 1;
+      setExportText(isPlayable ? PuzzleFormat.export(editorStatus.board, format, includeProgress) : '');
+      return;
+    }
     const scene = gameInstance?.scene.getScene('GameScene') as GameScene;
     if (scene) {
-      scene.events.emit('START_GAME', { difficulty: diff, theme: thm });
+      scene.events.emit('EXPORT_PUZZLE', { format, includeProgress });
+    }
+  };
+
+  const handleImport = (puzzle: PuzzleFile) => {
+    setShowPuzzleIO(false);
+    if (gameState === 'EDITING') {
+      const editor = gameInstance?.scene.getScene('EditorScene') as EditorScene;
+      if (editor) editor.events.emit('EDITOR_IMPORT', puzzle);
+      return;
     }
+    launchImportedPuzzle(puzzle, theme);
+  };
+
+  const handleCopyPuzzleId = () => {
+    navigator.clipboard?.writeText(PuzzleGenerator.getPuzzleId(difficulty, puzzleSeed, puzzleCustom ?? undefined));
   };
 
   const handleNextPuzzle = () => {
+    if (mode === 'CAMPAIGN' && campaignLevel) {
+      const next = Campaign.getNextLevel(campaignLevel);
+      if (next) {
+        handlePlayLevel(next.packId, next.levelId);
+        return;
+      }
+    }
+    if (mode !== 'SESSION') {
+      handleBackToMenu();
+      return;
+    }
+    setGameState('PLAYING');
+    launchPuzzle(difficulty, theme, undefined, activeCustom);
+  };
+
+  const handlePlayDaily = (diff: Difficulty) => {
+    setMode('DAILY');
+    setDifficulty(diff);
+    setIsCustom(false);
+    setStats(EMPTY_SESSION_STATS);
+    startClock(0);
+    setShowDaily(false);
+    setShowRules(false);
+    setGameState('PLAYING');
+    launchPuzzle(diff, theme, PuzzleGenerator.getDailySeed(ProfileStore.toDayKey(new Date())), undefined, 'DAILY');
+  };
+
+  const handlePlayLevel = (packId: string, levelId: string, thm: Theme = theme) => {
+    const ref = { packId, levelId };
+    const level = Campaign.getLevel(ref);
+    if (!level) return;
+    setMode('CAMPAIGN');
+    setCampaignLevel(ref);
+    setStats(EMPTY_SESSION_STATS);
+    startClock(0);
+    setShowCampaign(false);
+    setShowRules(false);
+    setGameState('PLAYING');
+    launchImportedPuzzle(Campaign.toPuzzleFile(level), thm, Campaign.getLevelSeed(ref));
+    setLevelIntro(Campaign.getIntro(level, thm));
+  };
+
+  // GameScene sleeps while the editor is open, so the design survives a play-test
+  const handleOpenEditor = () => {
+    setShowRules(false);
+    setHint(null);
+    setCheckResult(null);
+    setGameState('EDITING');
+    if (gameInstance) {
+      gameInstance.scene.sleep('GameScene');
+      gameInstance.scene.run('EditorScene', { theme });
+    }
+  };
+
+  const handleLeaveEditor = () => {
+    setGameState('START');
+    if (gameInstance) {
+      gameInstance.scene.sleep('EditorScene');
+      gameInstance.scene.wake('GameScene');
+    }
+    setSavedGame(SaveGameStore.load());
+    setSavedDaily(SaveGameStore.load('DAILY'));
+  };
+
+  const emitToEditor = (event: string, payload?: unknown) => {
+    const editor = gameInstance?.scene.getScene('EditorScene') as EditorScene;
+    if (editor) {
+      editor.events.emit(event, payload);
+    }
+  };
+
+  const handleSetEditorTool = (tool: EditorTool) => {
+    setEditorTool(tool);
+    emitToEditor('EDITOR_SET_TOOL', tool);
+  };
+
+  const handlePlaytest = () => {
+    if (!editorStatus || editorStatus.issues.length > 0 || editorStatus.solutionCount !== 1) return;
+    setMode('EDITOR');
+    setStats(EMPTY_SESSION_STATS);
+    startClock(0);
     setGameState('PLAYING');
-    launchPuzzle(difficulty, theme);
+    if (gameInstance) {
+      gameInstance.scene.sleep('EditorScene');
+      gameInstance.scene.wake('GameScene');
+    }
+    // A play-test never takes over the saved game
+    launchImportedPuzzle({ ...editorStatus.board, edges: [] }, theme, '', null);
+  };
+
+  // Back to the daily menu, level select or editor; an unfinished board stays autosaved for Resume
+  const handleBackToMenu = () => {
+    if (mode === 'EDITOR') {
+      handleOpenEditor();
+      return;
+    }
+    setGameState('START');
+    if (mode === 'CAMPAIGN') setShowCampaign(true);
+    else setShowDaily(true);
+    setSavedGame(SaveGameStore.load());
+    setSavedDaily(SaveGameStore.load('DAILY'));
   };
 
   const handleRestart = () => {
@@ -130,7 +493,11 @@ const App: React.FC = () => {
 
   const handleSkip = () => {
     if (gameState !== 'PLAYING') return;
-    launchPuzzle(difficulty, theme);
+    if (mode !== 'SESSION') {
+      handleBackToMenu();
+      return;
+    }
+    launchPuzzle(difficulty, theme, undefined, activeCustom);
   };
 
   const handleUndo = () => {
@@ -141,16 +508,65 @@ const App: React.FC = () => {
     }
   };
 
+  const handleRedo = () => {
+    if (gameState !== 'PLAYING') return;
+    const scene = gameInstance?.scene.getScene('GameScene') as GameScene;
+    if (scene) {
+      scene.events.emit('REDO');
+    }
+  };
+
+  const handleToggleAnnotationMode = () => {
+    if (gameState !== 'PLAYING') return;
+    const enabled = !annotationMode;
+    setAnnotationMode(enabled);
+    const scene = gameInstance?.scene.getScene('GameScene') as GameScene;
+    if (scene) {
+      scene.events.emit('SET_ANNOTATION_MODE', enabled);
+    }
+  };
+
+  const handleHint = () => {
+    if (gameState !== 'PLAYING') return;
+    const scene = gameInstance?.scene.getScene('GameScene') as GameScene;
+    if (scene) {
+      scene.events.emit('REQUEST_HINT');
+    }
+  };
+
+  const handleCheck = () => {
+    if (gameState !== 'PLAYING') return;
+    const scene = gameInstance?.scene.getScene('GameScene') as GameScene;
+    if (scene) {
+      scene.events.emit('CHECK_BOARD');
+    }
+  };
+
   const handleChangeDifficulty = (newDiff: Difficulty) => {
     setDifficulty(newDiff);
+    setIsCustom(false);
+    setShowDiffSelector(false);
+    if (mode === 'DAILY') launchPuzzle(newDiff, theme, PuzzleGenerator.getDailySeed(ProfileStore.toDayKey(new Date())), undefined, 'DAILY');
+    else launchPuzzle(newDiff, theme);
+  };
+
+  const handlePlayCustom = () => {
+    setIsCustom(true);
     setShowDiffSelector(false);
-    launchPuzzle(newDiff, theme);
+    launchPuzzle(difficulty, theme, undefined, customDifficulty);
   };
 
   const handleChangeTheme = (newTheme: Theme) => {
     setTheme(newTheme);
     setShowThemeSelector(false);
-    launchPuzzle(difficulty, newTheme);
+    // Same board, new look
+    if (mode === 'CAMPAIGN' && campaignLevel) {
+      handlePlayLevel(campaignLevel.packId, campaignLevel.levelId, newTheme);
+    } else if (importedPuzzle) {
+      launchImportedPuzzle(importedPuzzle, newTheme, '', mode === 'EDITOR' ? null : 'GAME');
+    } else {
+      launchPuzzle(difficulty, newTheme, puzzleSeed, puzzleCustom ?? undefined, mode === 'DAILY' ? 'DAILY' : 'GAME');
+    }
   };
 
   const handleReportClick = () => {
@@ -168,16 +584,16 @@ const App: React.FC = () => {
     setShowReportPopup(false);
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-  };
-
   // --- THEME & STYLING ---
 
   const isPenguin = theme === Theme.PENGUINS;
   const isCity = theme === Theme.CITY;
+  // Variant rules for the rules text: the next board while the instructions are up, otherwise the one in play
+  const rulesBoard = gameState === 'INSTRUCTIONS' ? activeCustom : board;
+  const rulesMaxBridges = rulesBoard?.maxBridges ?? DEFAULT_MAX_BRIDGES;
+  const rulesDirections = rulesBoard?.diagonal ? 'horizontally, vertically or diagonally' : 'horizontally or vertically';
+  const ruleCount = (noun: string) => `${rulesMaxBridges} ${noun}${rulesMaxBridges === 1 ? '' : 's'}`;
+  const rulesCapacity = rulesBoard?.capacity ?? 0; // Power-flow rule; 0 for none
 
   const bgClass = isPenguin ? "bg-sky-950" : isCity ? "bg-stone-900" : "bg-slate-900";
   const containerBorderClass = isPenguin ? "border-sky-700 bg-sky-900" : isCity ? "border-stone-700 bg-stone-800" : "border-slate-700 bg-slate-800";
@@ -186,8 +602,8 @@ const App: React.FC = () => {
   const accentBorderClass = isPenguin ? "border-cyan-400" : isCity ? "border-emerald-400" : "border-yellow-400";
   const primaryButtonClass = isPenguin ? "bg-cyan-600 hover:bg-cyan-500 border-cyan-800" : isCity ? "bg-emerald-600 hover:bg-emerald-500 border-emerald-800" : "bg-green-600 hover:bg-green-500 border-green-800";
 
-  const getDiffButtonClass = (d: Difficulty) => {
-    const isSelected = difficulty === d;
+  const getDiffButtonClass = (d: Difficulty | 'custom') => {
+    const isSelected = d === 'custom' ? isCustom : difficulty === d && !isCustom;
     const base = "py-2 rounded capitalize font-bold transition border-2";
     
     // Unselected state
@@ -204,6 +620,7 @@ const App: React.FC = () => {
         case Difficulty.EASY: return `${base} bg-green-600 border-green-400 text-white`;
         case Difficulty.MEDIUM: return `${base} bg-yellow-600 border-yellow-400 text-white`;
         case Difficulty.HARD: return `${base} bg-red-600 border-red-400 text-white`;
+        case 'custom': return `${base} bg-purple-600 border-purple-400 text-white`;
         default: return base;
     }
   };
@@ -219,7 +636,10 @@ const App: React.FC = () => {
     return `${base} bg-slate-800 border-slate-600 text-slate-400 hover:bg-slate-700 opacity-60 hover:opacity-100`;
   }
 
-  const totalSolved = stats[Difficulty.EASY] + stats[Difficulty.MEDIUM] + stats[Difficulty.HARD];
+  const totalSolved = stats[Difficulty.EASY] + stats[Difficulty.MEDIUM] + stats[Difficulty.HARD] + stats.custom;
+
+  const savedLevelRef = savedGame ? Campaign.parseLevelSeed(savedGame.seed) : null;
+  const savedLevel = savedLevelRef ? Campaign.getLevel(savedLevelRef) : null;
 
   return (
     <div className={`relative w-full h-screen ${bgClass} flex justify-center items-center overflow-hidden p-2 transition-colors duration-500`}>
@@ -229,7 +649,7 @@ const App: React.FC = () => {
         className={`relative w-full h-full max-w-[100vw] max-h-full aspect-[4/3] rounded-lg shadow-2xl border-4 transition-colors duration-500 ${containerBorderClass}`}
       >
         {/* HUD Overlay - Positioned Inside Container */}
-        <div className="absolute inset-0 p-4 pointer-events-none z-10 flex flex-col justify-between">
+        <div className={`absolute inset-0 p-4 pointer-events-none z-10 flex-col justify-between ${gameState === 'EDITING' ? 'hidden' : 'flex'}`}>
           
           {/* TOP BAR */}
           <div className="flex justify-between items-start w-full">
@@ -242,12 +662,24 @@ const App: React.FC = () => {
                 <div className="flex justify-between text-green-400"><span>Easy:</span> <span>{stats[Difficulty.EASY]}</span></div>
                 <div className="flex justify-between text-yellow-400"><span>Medium:</span> <span>{stats[Difficulty.MEDIUM]}</span></div>
                 <div className="flex justify-between text-red-400"><span>Hard:</span> <span>{stats[Difficulty.HARD]}</span></div>
+                {stats.custom > 0 && <div className="flex justify-between text-purple-400"><span>Custom:</span> <span>{stats.custom}</span></div>}
               </div>
             </div>
 
-            {/* Top Center: Timer */}
-            <div className={`${hudBgClass} text-white px-6 py-2 rounded-full shadow-lg font-mono text-xl font-bold border-2 backdrop-blur-sm transition-colors ${timeLeft < 30 ? 'border-red-500 text-red-400 animate-pulse' : 'border-transparent'}`}>
-              {formatTime(timeLeft)}
+            {/* Top Center: Timer + Puzzle ID */}
+            <div className="flex flex-col items-center gap-2">
+              <div className={`${hudBgClass} text-white px-6 py-2 rounded-full shadow-lg font-mono text-xl font-bold border-2 backdrop-blur-sm transition-colors ${mode === 'SESSION' && timeLeft < 30 ? 'border-red-500 text-red-400 animate-pulse' : 'border-transparent'}`}>
+                {mode !== 'SESSION' ? formatTime(puzzleSeconds) : formatTime(timeLeft)}
+              </div>
+              {puzzleSeed && (
+                <button
+                  onClick={handleCopyPuzzleId}
+                  className={`${hudBgClass} text-slate-300 px-3 py-1 rounded-full shadow font-mono text-xs border backdrop-blur-sm pointer-events-auto flex items-center gap-1 hover:text-white transition`}
+                  title="Copy Puzzle ID"
+                >
+                  <Hash size={12} /> {PuzzleGenerator.getPuzzleId(difficulty, puzzleSeed, puzzleCustom ?? undefined)} <Copy size={12} />
+                </button>
+              )}
             </div>
 
             {/* Top Right: Controls */}
@@ -268,6 +700,23 @@ const App: React.FC = () => {
                 >
                   <HelpCircle size={20} />
                 </button>
+                <button 
+                  onClick={handleHint}
+                  disabled={gameState !== 'PLAYING'}
+                  className="bg-fuchsia-600 text-white rounded hover:bg-fuchsia-500 transition disabled:opacity-50 disabled:cursor-not-allowed w-[44px] flex items-center justify-center h-[44px]" 
+                  title="Hint"
+                >
+                  <Lightbulb size={20} />
+                </button>
+                <button 
+                  onClick={handleCheck}
+                  disabled={gameState !== 'PLAYING'}
+                  className="relative bg-teal-600 text-white rounded hover:bg-teal-500 transition disabled:opacity-50 disabled:cursor-not-allowed w-[44px] flex items-center justify-center h-[44px]" 
+                  title={autoCheck ? "Check Cables (live checking on)" : "Check Cables"}
+                >
+                  <ListChecks size={20} />
+                  {autoCheck && <span className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-red-500 border-2 border-white" />}
+                </button>
               </div>
               
               <div className="flex flex-col gap-2">
@@ -276,15 +725,15 @@ const App: React.FC = () => {
                       onClick={handleUndo}
                       disabled={!canUndo || gameState !== 'PLAYING'}
                       className="bg-slate-600 text-white rounded hover:bg-slate-500 transition disabled:opacity-50 disabled:cursor-not-allowed h-[44px] w-[44px] flex items-center justify-center" 
-                      title="Undo">
+                      title="Undo (Ctrl+Z)">
                       <Undo size={20} />
                     </button>
                     <button 
-                      onClick={() => setShowDiffSelector(true)}
-                      disabled={gameState !== 'PLAYING'}
-                      className="bg-purple-600 text-white rounded hover:bg-purple-500 transition disabled:opacity-50 disabled:cursor-not-allowed h-[44px] w-[44px] flex items-center justify-center" 
-                      title="Change Difficulty">
-                      <Gauge size={20} />
+                      onClick={handleRedo}
+                      disabled={!canRedo || gameState !== 'PLAYING'}
+                      className="bg-slate-600 text-white rounded hover:bg-slate-500 transition disabled:opacity-50 disabled:cursor-not-allowed h-[44px] w-[44px] flex items-center justify-center" 
+                      title="Redo (Ctrl+Shift+Z)">
+                      <Redo size={20} />
                     </button>
                 </div>
                 <div className="flex gap-2">
@@ -299,17 +748,77 @@ const App: React.FC = () => {
                       onClick={handleSkip}
                       disabled={gameState !== 'PLAYING'}
                       className="bg-indigo-600 hover:bg-indigo-500 text-white rounded transition disabled:opacity-50 disabled:cursor-not-allowed h-[44px] w-[44px] flex items-center justify-center"
-                      title="Skip Puzzle"
+                      title={mode === 'DAILY' ? "Back to Daily Menu" : mode === 'CAMPAIGN' ? "Back to Level Select" : mode === 'EDITOR' ? "Back to Editor" : "Skip Puzzle"}
                     >
-                      <SkipForward size={20} />
+                      {mode !== 'SESSION' ? <LogOut size={20} /> : <SkipForward size={20} />}
+                    </button>
+                </div>
+                <div className="flex gap-2">
+                    <button 
+                      onClick={() => setShowDiffSelector(true)}
+                      disabled={gameState !== 'PLAYING' || mode === 'CAMPAIGN'}
+                      className="bg-purple-600 text-white rounded hover:bg-purple-500 transition disabled:opacity-50 disabled:cursor-not-allowed h-[44px] w-[44px] flex items-center justify-center" 
+                      title="Change Difficulty">
+                      <Gauge size={20} />
+                    </button>
+                    <button 
+                      onClick={() => setShowPuzzleIO(true)}
+                      disabled={gameState !== 'PLAYING'}
+                      className="bg-cyan-700 hover:bg-cyan-600 text-white rounded transition disabled:opacity-50 disabled:cursor-not-allowed h-[44px] w-[44px] flex items-center justify-center"
+                      title="Import / Export Puzzle"
+                    >
+                      <FileText size={20} />
+                    </button>
+                </div>
+                <div className="flex gap-2">
+                    <button 
+                      onClick={handleToggleAnnotationMode}
+                      disabled={gameState !== 'PLAYING'}
+                      aria-pressed={annotationMode}
+                      className={`${annotationMode ? 'bg-amber-500 hover:bg-amber-400 ring-2 ring-white' : 'bg-slate-600 hover:bg-slate-500'} text-white rounded transition disabled:opacity-50 disabled:cursor-not-allowed h-[44px] w-[44px] flex items-center justify-center`}
+                      title={annotationMode ? "Pencil Marks On: moves mark 'at least one' / 'no cable'" : "Pencil Marks"}
+                    >
+                      <Pencil size={20} />
                     </button>
                 </div>
               </div>
             </div>
           </div>
 
-          {/* Bottom Right: Report */}
-          <div className="flex justify-end w-full pointer-events-auto">
+          {/* Bottom: Hint + Report */}
+          <div className="flex justify-end items-end w-full pointer-events-auto gap-4">
+             {fallbackNotice && !checkResult && !hint && gameState === 'PLAYING' && (
+               <div className={`flex-1 ${hudBgClass} text-white px-4 py-3 rounded-lg shadow-lg border-2 backdrop-blur-sm flex items-center gap-3 border-amber-500`}>
+                 <AlertTriangle size={20} className="text-amber-400 shrink-0" />
+                 <span className="text-sm">No puzzle could be generated with these settings, so this is a simple stand-in board. Try fewer islands or more connections per island.</span>
+               </div>
+             )}
+             {levelIntro && !checkResult && !hint && gameState === 'PLAYING' && (
+               <div className={`flex-1 ${hudBgClass} text-white px-4 py-3 rounded-lg shadow-lg border-2 backdrop-blur-sm flex items-center gap-3 ${accentBorderClass}`}>
+                 <BookOpen size={20} className={`${accentTextClass} shrink-0`} />
+                 <span className="text-sm">{levelIntro}</span>
+               </div>
+             )}
+             {checkResult && !hint && gameState === 'PLAYING' && (
+               <div className={`flex-1 ${hudBgClass} text-white px-4 py-3 rounded-lg shadow-lg border-2 backdrop-blur-sm flex items-center gap-3 ${checkResult.wrongCount > 0 ? 'border-red-500' : 'border-teal-500'}`}>
+                 {checkResult.wrongCount > 0
+                   ? <AlertTriangle size={20} className="text-red-400 shrink-0" />
+                   : <Check size={20} className="text-teal-400 shrink-0" />}
+                 <span className="text-sm">
+                   {checkResult.wrongCount === 0
+                     ? 'No mistakes so far.'
+                     : `${checkResult.wrongCount} ${checkResult.wrongCount === 1 ? 'connection is' : 'connections are'} wrong (marked in red).`}
+                 </span>
+               </div>
+             )}
+             {hint && gameState === 'PLAYING' && (
+               <div className={`flex-1 ${hudBgClass} text-white px-4 py-3 rounded-lg shadow-lg border-2 backdrop-blur-sm flex items-center gap-3 ${hint.kind === 'MISTAKE' ? 'border-red-500' : 'border-fuchsia-500'}`}>
+                 {hint.kind === 'MISTAKE'
+                   ? <AlertTriangle size={20} className="text-red-400 shrink-0" />
+                   : <Lightbulb size={20} className="text-fuchsia-400 shrink-0" />}
+                 <span className="text-sm">{hint.reason}</span>
+               </div>
+             )}
              <button 
                onClick={handleReportClick}
                disabled={gameState !== 'PLAYING'}
@@ -320,8 +829,30 @@ const App: React.FC = () => {
              </button>
           </div>
         </div>
+
+        {/* Editor Overlay */}
+        {gameState === 'EDITING' && (
+          <EditorPanel
+            status={editorStatus}
+            tool={editorTool}
+            theme={theme}
+            onSetTool={handleSetEditorTool}
+            onResize={(width, height) => emitToEditor('EDITOR_RESIZE', { width, height })}
+            onSetMaxBridges={maxBridges => emitToEditor('EDITOR_SET_MAX_BRIDGES', maxBridges)}
+            onSetDiagonal={diagonal => emitToEditor('EDITOR_SET_DIAGONAL', diagonal)}
+            onSetCapacity={capacity => emitToEditor('EDITOR_SET_CAPACITY', capacity)}
+            onClear={() => emitToEditor('EDITOR_CLEAR')}
+            onOpenIO={() => setShowPuzzleIO(true)}
+            onPlaytest={handlePlaytest}
+            onExit={handleLeaveEditor}
+          />
+        )}
       </div>
 
+      {/* Screen reader: move announcements and a text version of the board */}
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+      {board && gameState !== 'START' && <BoardDescription board={board} theme={theme} />}
+
       {/* --- MODALS --- */}
 
       {/* Change Difficulty Modal */}
@@ -342,6 +873,14 @@ const App: React.FC = () => {
                     {d}
                   </button>
                 ))}
+                {mode === 'SESSION' && (
+                  <>
+                    <CustomDifficultyForm value={customDifficulty} onChange={setCustomDifficulty} />
+                    <button onClick={handlePlayCustom} className={getDiffButtonClass('custom')}>
+                      Custom
+                    </button>
+                  </>
+                )}
               </div>
               <p className="text-xs text-slate-400 mt-4 text-center">Note: Current puzzle will be skipped.</p>
            </div>
@@ -425,6 +964,68 @@ const App: React.FC = () => {
             {gameState === 'START' ? (
               <div className="space-y-6">
 
+                {/* Resume Saved Puzzle */}
+                {savedGame && (savedGame.timeLeft > 0 || savedLevel) && (
+                  <button 
+                    onClick={() => handleResume(savedGame, 'GAME')}
+                    className={`w-full py-3 rounded font-bold shadow-lg border-b-4 active:border-b-0 active:translate-y-1 transition text-white flex items-center justify-center gap-2 ${primaryButtonClass}`}
+                  >
+                    <Play size={18} fill="currentColor" />
+                    {savedLevel
+                      ? <>Resume {savedLevel.name}</>
+                      : savedGame.custom
+                        ? <>Resume Custom Puzzle</>
+                        : <>Resume <span className="capitalize">{savedGame.difficulty}</span> Puzzle</>}
+                    <span className="font-mono font-normal text-sm opacity-80">
+                      ({savedLevel ? formatTime(savedGame.puzzleSeconds) : `${formatTime(savedGame.timeLeft)} left`})
+                    </span>
+                  </button>
+                )}
+
+                {/* Resume Saved Daily */}
+                {savedDaily && (
+                  <button 
+                    onClick={() => handleResume(savedDaily, 'DAILY')}
+                    className={`w-full py-3 rounded font-bold shadow-lg border-b-4 active:border-b-0 active:translate-y-1 transition text-white flex items-center justify-center gap-2 ${primaryButtonClass}`}
+                  >
+                    <Play size={18} fill="currentColor" />
+                    Resume <span className="capitalize">{savedDaily.difficulty}</span> Daily
+                    <span className="font-mono font-normal text-sm opacity-80">
+                      ({formatTime(savedDaily.puzzleSeconds)})
+                    </span>
+                  </button>
+                )}
+
+                {/* Daily Puzzle */}
+                <button
+                  onClick={() => setShowDaily(true)}
+                  className={`w-full py-3 rounded font-bold border-2 transition flex items-center justify-center gap-2 ${isPenguin ? 'border-cyan-500 text-cyan-300 hover:bg-cyan-500/10' : 'border-yellow-500 text-yellow-300 hover:bg-yellow-500/10'}`}
+                >
+                  <CalendarDays size={18} /> Daily Puzzle
+                  <span className="font-normal text-sm opacity-80">
+                    ({Object.values(Difficulty).filter(d => DailyStore.getResult(daily, ProfileStore.toDayKey(new Date()), d)).length}/3 solved today)
+                  </span>
+                </button>
+
+                {/* Campaign */}
+                <button
+                  onClick={() => setShowCampaign(true)}
+                  className={`w-full py-3 rounded font-bold border-2 transition flex items-center justify-center gap-2 ${isPenguin ? 'border-cyan-500 text-cyan-300 hover:bg-cyan-500/10' : 'border-yellow-500 text-yellow-300 hover:bg-yellow-500/10'}`}
+                >
+                  <MapIcon size={18} /> Campaign
+                  <span className="font-normal text-sm opacity-80">
+                    ({Object.keys(campaign.levels).length}/{Campaign.getPacks().reduce((sum, p) => sum + p.levels.length, 0)} levels)
+                  </span>
+                </button>
+
+                {/* Puzzle Editor */}
+                <button
+                  onClick={handleOpenEditor}
+                  className={`w-full py-3 rounded font-bold border-2 transition flex items-center justify-center gap-2 ${isPenguin ? 'border-cyan-500 text-cyan-300 hover:bg-cyan-500/10' : 'border-yellow-500 text-yellow-300 hover:bg-yellow-500/10'}`}
+                >
+                  <PencilRuler size={18} /> Puzzle Editor
+                </button>
+
                 {/* Theme Selection */}
                 <div>
                    <label className="block text-slate-300 text-sm font-bold mb-2 flex items-center gap-2">
@@ -478,17 +1079,50 @@ const App: React.FC = () => {
                    <label className="block text-slate-300 text-sm font-bold mb-2 flex items-center gap-2">
                      <Gauge size={16} /> Starting Difficulty
                    </label>
-                   <div className="grid grid-cols-3 gap-2">
+                   <div className="grid grid-cols-4 gap-2">
                      {[Difficulty.EASY, Difficulty.MEDIUM, Difficulty.HARD].map(d => (
                        <button
                          key={d}
-                         onClick={() => setDifficulty(d)}
+                         onClick={() => { setDifficulty(d); setIsCustom(false); }}
                          className={getDiffButtonClass(d)}
                        >
                          {d}
                        </button>
                      ))}
+                     <button onClick={() => setIsCustom(true)} className={getDiffButtonClass('custom')}>
+                       Custom
+                     </button>
                    </div>
+                   {isCustom && (
+                     <div className="mt-2">
+                       <CustomDifficultyForm value={customDifficulty} onChange={setCustomDifficulty} />
+                     </div>
+                   )}
+                </div>
+
+                {/* Practice Option */}
+                <label className="flex items-center gap-3 text-slate-300 text-sm font-bold cursor-pointer select-none">
+                   <input
+                     type="checkbox"
+                     checked={autoCheck}
+                     onChange={e => setAutoCheck(e.target.checked)}
+                     className="w-4 h-4 accent-teal-500"
+                   />
+                   <ListChecks size={16} /> Practice: mark wrong connections as you play
+                </label>
+
+                {/* Seed Entry */}
+                <div>
+                   <label className="block text-slate-300 text-sm font-bold mb-2 flex items-center gap-2">
+                     <Hash size={16} /> Puzzle ID or Seed <span className="font-normal text-slate-500">(optional)</span>
+                   </label>
+                   <input
+                     type="text"
+                     value={seedInput}
+                     onChange={e => setSeedInput(e.target.value)}
+                     placeholder="e.g. hard-K7QF3M"
+                     className={`w-full px-3 py-2 rounded font-mono uppercase border-2 outline-none transition ${isPenguin ? 'bg-sky-800 border-sky-700 focus:border-cyan-400' : 'bg-slate-700 border-slate-600 focus:border-yellow-400'} text-white placeholder:text-slate-500 placeholder:normal-case`}
+                   />
                 </div>
 
                 <button 
@@ -498,8 +1132,11 @@ const App: React.FC = () => {
                    NEXT
                 </button>
                 
-                <div className="text-xs text-center text-slate-500 mt-4">
-                   Instructions on next screen
+                <div className="flex justify-between items-center text-xs text-slate-500 mt-4">
+                   <span>Instructions on next screen</span>
+                   <button onClick={() => setShowStats(true)} className="flex items-center gap-1 text-slate-400 hover:text-white transition">
+                     <BarChart3 size={14} /> Lifetime Stats
+                   </button>
                 </div>
               </div>
             ) : (
@@ -514,31 +1151,43 @@ const App: React.FC = () => {
                             <>
                                 <li>Connect ice floes with ice bridges.</li>
                                 <li>The <strong>number of penguins</strong> on a floe represents the exact number of bridges needed.</li>
-                                <li>You can have up to <strong>2 bridges</strong> between two floes.</li>
-                                <li>Bridges can only run horizontally or vertically.</li>
-                                <li><strong>Bridges cannot cross</strong> each other.</li>
+                                <li>You can have up to <strong>{ruleCount('bridge')}</strong> between two floes.</li>
+                                <li>Bridges can only run {rulesDirections}.</li>
+                                <li><strong>Bridges cannot cross</strong> each other, or pass over lakes.</li>
                                 <li>All floes must be connected into a single group.</li>
+                                {rulesCapacity > 0 && <li>The <strong>fishery</strong> (the floe with the most penguins, ringed in gold) feeds every other floe, and each bridge carries fish for at most <strong>{rulesCapacity} floes</strong>.</li>}
                             </>
                         ) : isCity ? (
                             <>
                                 <li>Connect buildings with streets.</li>
                                 <li>The number on a building represents the <strong>exact number</strong> of streets connected to it.</li>
-                                <li>You can have up to <strong>2 streets</strong> between two buildings.</li>
-                                <li>Streets can only run horizontally or vertically.</li>
-                                <li><strong>Streets cannot cross</strong> each other.</li>
+                                <li>You can have up to <strong>{ruleCount('street')}</strong> between two buildings.</li>
+                                <li>Streets can only run {rulesDirections}.</li>
+                                <li><strong>Streets cannot cross</strong> each other, or pass through skyscrapers.</li>
                                 <li>All buildings must be connected into a single road network.</li>
+                                {rulesCapacity > 0 && <li>The <strong>power station</strong> (the biggest number, ringed in gold) supplies every other building, and each street carries power for at most <strong>{rulesCapacity} buildings</strong>.</li>}
                             </>
                         ) : (
                             <>
                                 <li>Connect houses with power cables.</li>
                                 <li>The number on a house represents the <strong>exact number</strong> of cables connected to it.</li>
-                                <li>You can have up to <strong>2 cables</strong> between two houses.</li>
-                                <li>Cables can only run horizontally or vertically.</li>
-                                <li><strong>Lines cannot cross</strong> each other.</li>
+                                <li>You can have up to <strong>{ruleCount('cable')}</strong> between two houses.</li>
+                                <li>Cables can only run {rulesDirections}.</li>
+                                <li><strong>Lines cannot cross</strong> each other, or pass over rocks.</li>
                                 <li>All houses must be connected into a single power network.</li>
+                                {rulesCapacity > 0 && <li>The <strong>power plant</strong> (the biggest number) supplies every other house, and each cable carries power for at most <strong>{rulesCapacity} houses</strong>.</li>}
                             </>
                         )}
                     </ul>
+                    <p className="mt-4 pt-3 border-t border-white/10 text-xs text-slate-300">
+                      Drag from one {isPenguin ? 'floe' : isCity ? 'building' : 'house'} to a neighbor (or click both) to add a {isPenguin ? 'bridge' : isCity ? 'street' : 'cable'}. {rulesMaxBridges > 1 ? 'Repeat to add more up to the limit, then once more to remove them.' : 'Repeat to remove it.'}
+                      With the pencil on, the same moves mark a pair as "at least one" (dots) or "none" (X) instead.
+                      {rulesCapacity > 0 && ` A double ${isPenguin ? 'bridge' : isCity ? 'street' : 'cable'} carries twice as much. ${isPenguin ? 'Floes' : isCity ? 'Buildings' : 'Houses'} light up as finished ${isPenguin ? 'bridges' : isCity ? 'streets' : 'cables'} join them to the ${isPenguin ? 'fishery' : isCity ? 'power station' : 'plant'}.`}
+                    </p>
+                    <p className="mt-2 text-xs text-slate-300">
+                      Keyboard: arrows move the cursor, Space/Enter selects, Shift+arrow adds and Alt+arrow removes toward the neighbor.
+                      {rulesBoard?.diagonal && ' Home, Page Up, End and Page Down work like arrows for the diagonals.'}
+                    </p>
                   </div>
                   
                   <button 
@@ -557,6 +1206,48 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Lifetime Stats */}
+      {showStats && (
+        <StatsModal
+          profile={profile}
+          isPenguin={isPenguin}
+          onClose={() => setShowStats(false)}
+          onClear={() => setProfile(ProfileStore.clear())}
+        />
+      )}
+
+      {/* Daily Puzzle */}
+      {showDaily && (
+        <DailyModal
+          daily={daily}
+          today={ProfileStore.toDayKey(new Date())}
+          isPenguin={isPenguin}
+          onPlay={handlePlayDaily}
+          onClose={() => setShowDaily(false)}
+        />
+      )}
+
+      {/* Campaign Level Select */}
+      {showCampaign && (
+        <CampaignModal
+          progress={campaign}
+          isPenguin={isPenguin}
+          onPlay={(packId, levelId) => handlePlayLevel(packId, levelId)}
+          onClose={() => setShowCampaign(false)}
+        />
+      )}
+
+      {/* Puzzle Import / Export */}
+      {showPuzzleIO && (
+        <PuzzleIOModal
+          exportText={exportText}
+          isPenguin={isPenguin}
+          onRequestExport={handleRequestExport}
+          onImport={handleImport}
+          onClose={() => setShowPuzzleIO(false)}
+        />
+      )}
+
       {/* Victory Modal (Intermediate) */}
       {gameState === 'VICTORY' && (
         <div className={`absolute inset-0 ${isPenguin ? 'bg-cyan-500/10' : 'bg-yellow-500/10'} flex items-center justify-center z-50 backdrop-blur-sm`}>
@@ -564,15 +1255,31 @@ const App: React.FC = () => {
              <h2 className={`text-3xl font-bold ${accentTextClass} mb-2`}>
                 {isPenguin ? 'Floes Connected!' : isCity ? 'City Connected!' : 'Grid Online!'}
              </h2>
-             <div className="text-green-400 font-mono mb-6">
+             <div className="text-green-400 font-mono mb-2">
                 {isPenguin ? 'Colony Secure' : isCity ? 'Traffic Flowing' : 'System Stable'}
              </div>
+             <div className="text-slate-400 font-mono text-sm mb-6 flex items-center justify-center gap-1">
+                <Clock size={14} /> Solved in {formatTime(puzzleSeconds)}
+             </div>
+             {mode === 'CAMPAIGN' && (
+               <div className="flex justify-center gap-2 mb-6" aria-label={`${lastStars} of 3 stars`}>
+                 {[1, 2, 3].map(i => (
+                   <Star key={i} size={32} className={i <= lastStars ? 'text-yellow-400' : 'text-slate-600'} fill="currentColor" />
+                 ))}
+               </div>
+             )}
              
              <button 
                onClick={handleNextPuzzle}
                className={`w-full px-8 py-4 rounded-lg font-bold text-lg flex items-center justify-center gap-2 transition shadow-lg border-b-4 active:border-b-0 active:translate-y-1 ${primaryButtonClass} text-white`}
              >
-               Next Puzzle <Play size={20} fill="currentColor" />
+               {mode === 'DAILY'
+                 ? 'Back to Daily'
+                 : mode === 'EDITOR'
+                 ? 'Back to Editor'
+                 : mode === 'CAMPAIGN'
+                 ? (campaignLevel && Campaign.getNextLevel(campaignLevel) ? 'Next Level' : 'Back to Levels')
+                 : 'Next Puzzle'} <Play size={20} fill="currentColor" />
              </button>
           </div>
         </div>
@@ -590,7 +1297,7 @@ const App: React.FC = () => {
                 <div className={`text-5xl font-bold ${accentTextClass} mb-2`}>{totalSolved}</div>
                 <div className="text-sm text-slate-500 uppercase tracking-widest mb-6">Total Puzzles Solved</div>
                 
-                <div className="grid grid-cols-3 gap-2 text-sm border-t border-white/10 pt-4">
+                <div className={`grid ${stats.custom > 0 ? 'grid-cols-4' : 'grid-cols-3'} gap-2 text-sm border-t border-white/10 pt-4`}>
                    <div>
                       <div className="font-bold text-green-400">{stats[Difficulty.EASY]}</div>
                       <div className="text-slate-500">Easy</div>
@@ -603,6 +1310,12 @@ const App: React.FC = () => {
                       <div className="font-bold text-red-400">{stats[Difficulty.HARD]}</div>
                       <div className="text-slate-500">Hard</div>
                    </div>
+                   {stats.custom > 0 && (
+                     <div>
+                        <div className="font-bold text-purple-400">{stats.custom}</div>
+                        <div className="text-slate-500">Custom</div>
+                     </div>
+                   )}
                 </div>
              </div>
              
@@ -612,6 +1325,12 @@ const App: React.FC = () => {
              >
                New Session
              </button>
+             <button 
+               onClick={() => setShowStats(true)}
+               className="w-full mt-3 text-slate-400 hover:text-white flex items-center justify-center gap-2 transition"
+             >
+               <BarChart3 size={16} /> Lifetime Stats
+             </button>
           </div>
         </div>
       )}
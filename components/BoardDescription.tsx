@@ -0,0 +1,73 @@
+import React from 'react';
+import { BoardSnapshot, NodeData, Theme, THEME_NOUNS } from '../types';
+import { PowerFlow } from '../game/systems/PowerFlow';
+
+const MULTIPLICITY: Record<number, string> = { 1: 'Single', 2: 'Double', 3: 'Triple' };
+
+interface BoardDescriptionProps {
+  board: BoardSnapshot;
+  theme: Theme;
+}
+
+/**
+ * Off-screen table mirroring the canvas, so screen-reader users can walk the board
+ * row by row with their usual table commands.
+ */
+const BoardDescription: React.FC<BoardDescriptionProps> = ({ board, theme }) => {
+  const nouns = THEME_NOUNS[theme];
+  const houseLabel = nouns.house.charAt(0).toUpperCase() + nouns.house.slice(1);
+  const obstacleLabel = nouns.obstacle.charAt(0).toUpperCase() + nouns.obstacle.slice(1);
+  const cells: string[][] = Array.from({ length: board.height }, () => Array(board.width).fill('Empty'));
+
+  const byId = new Map<string, NodeData>(board.nodes.map(n => [n.id, n]));
+  board.edges.forEach(e => {
+    const a = byId.get(e.nodeA);
+    const b = byId.get(e.nodeB);
+    if (!a || !b) return;
+
+    const direction = a.y === b.y ? 'horizontal' : a.x === b.x ? 'vertical' : 'diagonal';
+    const label = `${MULTIPLICITY[e.count] ?? `${e.count}-fold`} ${direction} ${nouns.cable}`;
+    const stepX = Math.sign(b.x - a.x);
+    const stepY = Math.sign(b.y - a.y);
+    for (let x = a.x, y = a.y; x !== b.x || y !== b.y; x += stepX, y += stepY) {
+      cells[y][x] = label;
+    }
+  });
+
+  board.obstacles?.forEach(p => {
+    cells[p.y][p.x] = `${obstacleLabel}, blocks ${nouns.cable}s`;
+  });
+
+  // Under the power-flow rule the plant is named where it stands
+  const plant = board.capacity ? PowerFlow.findPlant(board.nodes) : null;
+  const plantLabel = nouns.plant.charAt(0).toUpperCase() + nouns.plant.slice(1);
+  board.nodes.forEach(n => {
+    const status = n.currentConnections === n.requiredConnections ? 'complete'
+      : n.currentConnections > n.requiredConnections ? 'too many' : `${n.requiredConnections - n.currentConnections} missing`;
+    cells[n.y][n.x] = `${n.id === plant?.id ? plantLabel : houseLabel}, needs ${n.requiredConnections}, has ${n.currentConnections}, ${status}`;
+  });
+
+  return (
+    <table className="sr-only">
+      <caption>
+        Puzzle board, {board.width} columns by {board.height} rows, {board.nodes.length} {nouns.house}s
+      </caption>
+      <thead>
+        <tr>
+          <td />
+          {cells[0]?.map((_, x) => <th key={x} scope="col">Column {x + 1}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {cells.map((row, y) => (
+          <tr key={y}>
+            <th scope="row">Row {y + 1}</th>
+            {row.map((text, x) => <td key={x}>{text}</td>)}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default BoardDescription;
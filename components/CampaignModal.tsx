@@ -0,0 +1,84 @@
+import React from 'react';
+import { Lock, Map as MapIcon, Star, X } from 'lucide-react';
+import { Campaign } from '../game/campaign/Campaign';
+import { CampaignProgress, CampaignStore } from '../game/storage/CampaignStore';
+import { formatTime } from '../utils/time';
+
+interface CampaignModalProps {
+  progress: CampaignProgress;
+  isPenguin: boolean;
+  onPlay: (packId: string, levelId: string) => void;
+  onClose: () => void;
+}
+
+const CampaignModal: React.FC<CampaignModalProps> = ({ progress, isPenguin, onPlay, onClose }) => {
+  const isSolved = (ref: { packId: string, levelId: string }) => CampaignStore.getLevel(progress, ref) !== null;
+
+  return (
+    <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-[60] backdrop-blur-md">
+      <div className={`${isPenguin ? 'bg-sky-900 border-sky-600' : 'bg-slate-800 border-slate-600'} text-white p-6 rounded-lg max-w-2xl w-full max-h-[90%] overflow-y-auto shadow-2xl border`}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className={`text-xl font-bold flex items-center gap-2 ${isPenguin ? 'text-cyan-400' : 'text-yellow-400'}`}>
+            <MapIcon size={20} /> Campaign
+          </h3>
+          <button onClick={onClose} className="hover:text-red-400"><X size={20}/></button>
+        </div>
+
+        {Campaign.getPacks().map(pack => {
+          const earned = pack.levels.reduce((sum, l) => sum + (CampaignStore.getLevel(progress, { packId: pack.id, levelId: l.id })?.stars || 0), 0);
+          return (
+            <div key={pack.id} className="mb-5">
+              <div className="flex justify-between items-baseline mb-2 border-b border-white/20 pb-1">
+                <div>
+                  <span className="font-bold">{pack.name}</span>
+                  <span className="text-sm text-slate-400 ml-2">{pack.description}</span>
+                </div>
+                <span className="text-sm text-slate-400 flex items-center gap-1">
+                  <Star size={14} className="text-yellow-400" fill="currentColor" /> {earned}/{pack.levels.length * 3}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-4 gap-2">
+                {pack.levels.map((level, i) => {
+                  const ref = { packId: pack.id, levelId: level.id };
+                  const result = CampaignStore.getLevel(progress, ref);
+                  const unlocked = Campaign.isUnlocked(ref, isSolved);
+                  return (
+                    <button
+                      key={level.id}
+                      onClick={() => onPlay(pack.id, level.id)}
+                      disabled={!unlocked}
+                      className="bg-black/20 hover:bg-black/40 rounded-lg p-2 border border-white/10 flex flex-col items-center gap-1 transition disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-black/20"
+                      title={unlocked ? level.name : "Solve the previous level to unlock"}
+                    >
+                      <span className="text-xs text-slate-400 font-mono">{i + 1}</span>
+                      <span className="text-sm font-bold truncate w-full">{level.name}</span>
+                      {unlocked ? (
+                        <>
+                          <span className="flex gap-0.5" aria-label={`${result?.stars || 0} of 3 stars`}>
+                            {[1, 2, 3].map(n => (
+                              <Star key={n} size={14} className={n <= (result?.stars || 0) ? 'text-yellow-400' : 'text-slate-600'} fill="currentColor" />
+                            ))}
+                          </span>
+                          <span className="text-xs font-mono text-slate-400">{result ? formatTime(result.bestTime) : '--:--'}</span>
+                        </>
+                      ) : (
+                        <Lock size={16} className="text-slate-500 my-1" />
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+
+        <p className="text-xs text-slate-400">
+          <Star size={12} className="inline text-yellow-400" fill="currentColor" /> for solving, another for using no hints, and a third for beating the level's par time.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CampaignModal;
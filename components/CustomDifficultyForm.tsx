@@ -0,0 +1,58 @@
+import React from 'react';
+import { Minus, Plus } from 'lucide-react';
+import { CustomDifficulty, DEFAULT_CAPACITY } from '../types';
+import { PuzzleGenerator } from '../game/systems/PuzzleGenerator';
+
+interface CustomDifficultyFormProps {
+  value: CustomDifficulty;
+  onChange: (value: CustomDifficulty) => void;
+}
+
+// Steppers for the custom generator settings; every change is clamped to the supported range
+const CustomDifficultyForm: React.FC<CustomDifficultyFormProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<CustomDifficulty>) => onChange(PuzzleGenerator.clampCustom({ ...value, ...patch }));
+
+  const stepper = (label: string, current: number, set: (next: number) => void) => (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-slate-300">{label}</span>
+      <div className="flex items-center gap-2">
+        <button onClick={() => set(current - 1)} className="p-1 rounded bg-black/20 hover:bg-black/40" title={`Decrease ${label.toLowerCase()}`}><Minus size={14} /></button>
+        <span className="font-mono w-6 text-center text-white">{current}</span>
+        <button onClick={() => set(current + 1)} className="p-1 rounded bg-black/20 hover:bg-black/40" title={`Increase ${label.toLowerCase()}`}><Plus size={14} /></button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-black/20 rounded-lg p-3 border border-white/10 space-y-1">
+      {stepper('Width', value.width, width => update({ width }))}
+      {stepper('Height', value.height, height => update({ height }))}
+      {stepper('Fewest islands', value.nodeCount[0], min => update({ nodeCount: [min, Math.max(min, value.nodeCount[1])] }))}
+      {stepper('Most islands', value.nodeCount[1], max => update({ nodeCount: [Math.min(max, value.nodeCount[0]), max] }))}
+      {stepper('Max connections', value.maxConnections, maxConnections => update({ maxConnections }))}
+      {stepper('Bridges per pair', value.maxBridges, maxBridges => update({ maxBridges }))}
+      {stepper('Obstacles', value.obstacles, obstacles => update({ obstacles }))}
+      <label className="flex items-center justify-between text-sm cursor-pointer select-none">
+        <span className="text-slate-300">Diagonal bridges</span>
+        <input
+          type="checkbox"
+          checked={value.diagonal}
+          onChange={e => update({ diagonal: e.target.checked })}
+          className="w-4 h-4 accent-teal-500"
+        />
+      </label>
+      <label className="flex items-center justify-between text-sm cursor-pointer select-none">
+        <span className="text-slate-300">Power flow</span>
+        <input
+          type="checkbox"
+          checked={value.capacity > 0}
+          onChange={e => update({ capacity: e.target.checked ? DEFAULT_CAPACITY : 0 })}
+          className="w-4 h-4 accent-teal-500"
+        />
+      </label>
+      {value.capacity > 0 && stepper('Islands per bridge', value.capacity, capacity => update({ capacity }))}
+    </div>
+  );
+};
+
+export default CustomDifficultyForm;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { CalendarDays, Check, ChevronLeft, ChevronRight, Flame, Play, X } from 'lucide-react';
+import { Difficulty } from '../types';
+import { DailyProfile, DailyStore } from '../game/storage/DailyStore';
+import { ProfileStore } from '../game/storage/ProfileStore';
+import { formatTime } from '../utils/time';
+
+interface DailyModalProps {
+  daily: DailyProfile;
+  today: string; // "YYYY-MM-DD"
+  isPenguin: boolean;
+  onPlay: (difficulty: Difficulty) => void;
+  onClose: () => void;
+}
+
+const DIFFICULTY_COLORS: Record<Difficulty, string> = {
+  [Difficulty.EASY]: 'text-green-400',
+  [Difficulty.MEDIUM]: 'text-yellow-400',
+  [Difficulty.HARD]: 'text-red-400',
+};
+
+// Calendar cell shade by how many of the day's puzzles were solved
+const SOLVED_SHADES = ['bg-black/20', 'bg-emerald-900', 'bg-emerald-700', 'bg-emerald-500'];
+
+const WEEKDAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+const DailyModal: React.FC<DailyModalProps> = ({ daily, today, isPenguin, onPlay, onClose }) => {
+  const [monthOffset, setMonthOffset] = useState(0);
+
+  const streaks = DailyStore.getStreaks(daily);
+  const solvedDays = DailyStore.getSolvedDays(daily);
+
+  // Month shown in the calendar, Monday-first
+  const [year, month] = today.split('-').map(Number);
+  const first = new Date(year, month - 1 + monthOffset, 1);
+  const daysInMonth = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+  const leadingBlanks = (first.getDay() + 6) % 7;
+  const monthLabel = first.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-[60] backdrop-blur-md">
+      <div className={`${isPenguin ? 'bg-sky-900 border-sky-600' : 'bg-slate-800 border-slate-600'} text-white p-6 rounded-lg max-w-lg w-full shadow-2xl border`}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className={`text-xl font-bold flex items-center gap-2 ${isPenguin ? 'text-cyan-400' : 'text-yellow-400'}`}>
+            <CalendarDays size={20} /> Daily Puzzle
+          </h3>
+          <button onClick={onClose} className="hover:text-red-400"><X size={20}/></button>
+        </div>
+
+        <p className="text-sm text-slate-400 mb-4">Everyone gets the same boards today. Untimed: your solve time is recorded.</p>
+
+        {/* Today's Puzzles */}
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          {Object.values(Difficulty).map(d => {
+            const result = DailyStore.getResult(daily, today, d);
+            return (
+              <button
+                key={d}
+                onClick={() => onPlay(d)}
+                className="bg-black/20 hover:bg-black/40 rounded-lg p-3 border border-white/10 flex flex-col items-center gap-1 transition"
+              >
+                <span className={`capitalize font-bold ${DIFFICULTY_COLORS[d]}`}>{d}</span>
+                {result ? (
+                  <span className="text-sm font-mono flex items-center gap-1 text-emerald-400"><Check size={14} /> {formatTime(result.seconds)}</span>
+                ) : (
+                  <span className="text-sm flex items-center gap-1 text-slate-300"><Play size={14} /> Play</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Streaks */}
+        <div className="flex justify-around items-center bg-black/20 rounded-lg p-3 mb-4 border border-white/10">
+          <div className="flex items-center gap-2">
+            <Flame size={20} className={streaks.current > 0 ? 'text-orange-400' : 'text-slate-500'} />
+            <span className="font-bold">{streaks.current}</span>
+            <span className="text-sm text-slate-400">day streak</span>
+          </div>
+          <div className="text-sm text-slate-400">
+            Longest: <span className="font-bold text-white">{streaks.longest}</span> {streaks.longest === 1 ? 'day' : 'days'}
+          </div>
+        </div>
+
+        {/* Streak Calendar */}
+        <div className="bg-black/20 rounded-lg p-3 border border-white/10">
+          <div className="flex justify-between items-center mb-2">
+            <button onClick={() => setMonthOffset(monthOffset - 1)} className="hover:text-white text-slate-400" title="Previous month"><ChevronLeft size={18} /></button>
+            <span className="text-sm font-bold">{monthLabel}</span>
+            <button
+              onClick={() => setMonthOffset(monthOffset + 1)}
+              disabled={monthOffset >= 0}
+              className="hover:text-white text-slate-400 disabled:opacity-0"
+              title="Next month"
+            >
+              <ChevronRight size={18} />
+            </button>
+          </div>
+          <div className="grid grid-cols-7 gap-1 text-center text-xs">
+            {WEEKDAYS.map((w, i) => <div key={i} className="text-slate-500 font-bold">{w}</div>)}
+            {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+            {Array.from({ length: daysInMonth }, (_, i) => {
+              const day = ProfileStore.toDayKey(new Date(first.getFullYear(), first.getMonth(), i + 1));
+              const solved = solvedDays.get(day) || 0;
+              return (
+                <div
+                  key={day}
+                  title={solved > 0 ? `${day}: ${solved} solved` : day}
+                  className={`py-1 rounded font-mono ${SOLVED_SHADES[Math.min(solved, 3)]} ${day === today ? 'ring-2 ring-white' : ''} ${day > today ? 'text-slate-600' : ''}`}
+                >
+                  {i + 1}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DailyModal;
@@ -0,0 +1,167 @@
+import React from 'react';
+import { AlertTriangle, Cable, CircleCheck, FileText, House, LogOut, Minus, Mountain, PencilRuler, Play, Plus, Trash2 } from 'lucide-react';
+import { CAPACITY_RANGE, DEFAULT_CAPACITY, DEFAULT_MAX_BRIDGES, EditorStatus, EditorTool, MAX_BRIDGES_RANGE, Theme, THEME_NOUNS } from '../types';
+import { EDITOR_MAX_SIZE, EDITOR_MIN_SIZE } from '../game/scenes/EditorScene';
+
+interface EditorPanelProps {
+  status: EditorStatus | null;
+  tool: EditorTool;
+  theme: Theme;
+  onSetTool: (tool: EditorTool) => void;
+  onResize: (width: number, height: number) => void;
+  onSetMaxBridges: (maxBridges: number) => void;
+  onSetDiagonal: (diagonal: boolean) => void;
+  onSetCapacity: (capacity: number) => void; // 0 turns the power-flow rule off
+  onClear: () => void;
+  onOpenIO: () => void;
+  onPlaytest: () => void;
+  onExit: () => void;
+}
+
+const EditorPanel: React.FC<EditorPanelProps> = ({ status, tool, theme, onSetTool, onResize, onSetMaxBridges, onSetDiagonal, onSetCapacity, onClear, onOpenIO, onPlaytest, onExit }) => {
+  const isPenguin = theme === Theme.PENGUINS;
+  const nouns = THEME_NOUNS[theme];
+  const width = status?.board.width ?? 0;
+  const height = status?.board.height ?? 0;
+  const maxBridges = status?.board.maxBridges ?? DEFAULT_MAX_BRIDGES;
+  const diagonal = !!status?.board.diagonal;
+  const capacity = status?.board.capacity ?? 0;
+  const cycle = Array.from({ length: maxBridges }, (_, i) => i + 1).join(', ');
+  const isValid = !!status && status.issues.length === 0;
+  const isPlayable = isValid && status.solutionCount === 1; // Play-test and export need a unique solution
+
+  const cardClass = `${isPenguin ? 'bg-sky-900/90 border-sky-600' : 'bg-slate-800/90 border-slate-700'} text-white p-3 rounded shadow-lg pointer-events-auto backdrop-blur-sm border`;
+  const toolClass = (t: EditorTool) =>
+    `flex-1 py-1.5 rounded text-xs font-bold capitalize flex flex-col items-center justify-center gap-0.5 transition ${tool === t ? 'bg-amber-500 text-white' : 'bg-black/20 text-slate-300 hover:bg-black/40'}`;
+
+  const stepper = (label: string, value: number, [min, max]: [number, number], onChange: (value: number) => void) => (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-slate-300">{label}</span>
+      <div className="flex items-center gap-2">
+        <button onClick={() => onChange(value - 1)} disabled={value <= min} className="p-1 rounded bg-black/20 hover:bg-black/40 disabled:opacity-30" title={`Decrease ${label.toLowerCase()}`}><Minus size={14} /></button>
+        <span className="font-mono w-6 text-center">{value}</span>
+        <button onClick={() => onChange(value + 1)} disabled={value >= max} className="p-1 rounded bg-black/20 hover:bg-black/40 disabled:opacity-30" title={`Increase ${label.toLowerCase()}`}><Plus size={14} /></button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 p-4 pointer-events-none z-10 flex justify-between items-start">
+      {/* Tools + Status */}
+      <div className={`${cardClass} w-72 space-y-3`}>
+        <h3 className={`font-bold flex items-center gap-2 border-b border-white/20 pb-1 ${isPenguin ? 'text-cyan-400' : 'text-yellow-400'}`}>
+          <PencilRuler size={16} /> Puzzle Editor
+        </h3>
+
+        <div className="flex gap-2">
+          <button onClick={() => onSetTool('HOUSES')} className={toolClass('HOUSES')} aria-pressed={tool === 'HOUSES'}>
+            <House size={14} /> {nouns.house}s
+          </button>
+          <button onClick={() => onSetTool('OBSTACLES')} className={toolClass('OBSTACLES')} aria-pressed={tool === 'OBSTACLES'}>
+            <Mountain size={14} /> {nouns.obstacle}s
+          </button>
+          <button onClick={() => onSetTool('CABLES')} className={toolClass('CABLES')} aria-pressed={tool === 'CABLES'}>
+            <Cable size={14} /> {nouns.cable}s
+          </button>
+        </div>
+        <p className="text-xs text-slate-400">
+          {tool === 'HOUSES'
+            ? `Click a grid point to add a ${nouns.house}, click a ${nouns.house} to remove it.`
+            : tool === 'OBSTACLES'
+            ? `Click a grid point to add a ${nouns.obstacle} that no ${nouns.cable} may pass over, click it again to remove it.`
+            : `Drag between ${nouns.house}s (or click one, then the other) to draw the solution: ${cycle}, then none. Counts follow the ${nouns.cable}s.`}
+        </p>
+
+        <div className="space-y-1">
+          {stepper('Width', width, [EDITOR_MIN_SIZE, EDITOR_MAX_SIZE], w => onResize(w, height))}
+          {stepper('Height', height, [EDITOR_MIN_SIZE, EDITOR_MAX_SIZE], h => onResize(width, h))}
+          {stepper(`${nouns.cable.charAt(0).toUpperCase()}${nouns.cable.slice(1)}s per pair`, maxBridges, MAX_BRIDGES_RANGE, onSetMaxBridges)}
+          <label className="flex items-center justify-between text-sm cursor-pointer select-none">
+            <span className="text-slate-300">Diagonal {nouns.cable}s</span>
+            <input
+              type="checkbox"
+              checked={diagonal}
+              onChange={e => onSetDiagonal(e.target.checked)}
+              className="w-4 h-4 accent-amber-500"
+            />
+          </label>
+          <label className="flex items-center justify-between text-sm cursor-pointer select-none">
+            <span className="text-slate-300">Power flow from the {nouns.plant}</span>
+            <input
+              type="checkbox"
+              checked={capacity > 0}
+              onChange={e => onSetCapacity(e.target.checked ? DEFAULT_CAPACITY : 0)}
+              className="w-4 h-4 accent-amber-500"
+            />
+          </label>
+          {capacity > 0 && stepper(`${nouns.house.charAt(0).toUpperCase()}${nouns.house.slice(1)}s per ${nouns.cable}`, capacity, CAPACITY_RANGE, onSetCapacity)}
+        </div>
+
+        {status && (
+          <div className="text-sm bg-black/20 rounded p-2 border border-white/10 space-y-1">
+            {status.issues.map(issue => (
+              <div key={issue} className="flex items-start gap-2 text-amber-300">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {issue}
+              </div>
+            ))}
+            {isValid && status.solutionCount === 1 && (
+              <>
+                <div className="flex items-center gap-2 text-emerald-400"><CircleCheck size={14} /> Unique solution</div>
+                <div className="text-xs text-slate-400">Difficulty score: <span className="font-mono text-white">{status.score}</span></div>
+              </>
+            )}
+            {isValid && status.solutionCount === null && !status.tooComplex && (
+              <div className="text-slate-400">Checking solutions…</div>
+            )}
+            {isValid && status.tooComplex && (
+              <div className="flex items-start gap-2 text-amber-300">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" /> Too complex to check for a unique solution: try a smaller board or fewer {nouns.house}s.
+              </div>
+            )}
+            {isValid && status.solutionCount !== null && status.solutionCount > 1 && (
+              <div className="flex items-start gap-2 text-amber-300">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" /> More than one solution: add or move {nouns.house}s to rule the others out.
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className={`${cardClass} p-2 flex flex-col gap-2`}>
+        <button
+          onClick={onPlaytest}
+          disabled={!isPlayable}
+          className="bg-green-600 hover:bg-green-500 text-white rounded transition disabled:opacity-50 disabled:cursor-not-allowed h-[44px] w-[44px] flex items-center justify-center"
+          title="Play-test"
+        >
+          <Play size={20} />
+        </button>
+        <button
+          onClick={onOpenIO}
+          className="bg-cyan-700 hover:bg-cyan-600 text-white rounded transition h-[44px] w-[44px] flex items-center justify-center"
+          title="Import / Export Puzzle"
+        >
+          <FileText size={20} />
+        </button>
+        <button
+          onClick={onClear}
+          disabled={!status || status.board.nodes.length === 0}
+          className="bg-orange-600 hover:bg-orange-500 text-white rounded transition disabled:opacity-50 disabled:cursor-not-allowed h-[44px] w-[44px] flex items-center justify-center"
+          title="Clear Board"
+        >
+          <Trash2 size={20} />
+        </button>
+        <button
+          onClick={onExit}
+          className="bg-indigo-600 hover:bg-indigo-500 text-white rounded transition h-[44px] w-[44px] flex items-center justify-center"
+          title="Leave Editor"
+        >
+          <LogOut size={20} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EditorPanel;
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, Download, FileText, Upload, X } from 'lucide-react';
+import { HashiSolver } from '../game/systems/HashiSolver';
+import { PuzzleFile, PuzzleFormat, PuzzleFormatType } from '../game/systems/PuzzleFormat';
+
+interface PuzzleIOModalProps {
+  exportText: string;
+  isPenguin: boolean;
+  onRequestExport: (format: PuzzleFormatType, includeProgress: boolean) => void;
+  onImport: (puzzle: PuzzleFile) => void;
+  onClose: () => void;
+}
+
+const PuzzleIOModal: React.FC<PuzzleIOModalProps> = ({ exportText, isPenguin, onRequestExport, onImport, onClose }) => {
+  const [format, setFormat] = useState<PuzzleFormatType>('text');
+  const [includeProgress, setIncludeProgress] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Ask the scene for a fresh export whenever the options change
+  useEffect(() => {
+    onRequestExport(format, includeProgress);
+  }, [format, includeProgress]);
+
+  const handleLoad = () => {
+    try {
+      const puzzle = PuzzleFormat.parse(importText);
+      const solutions = HashiSolver.solve(puzzle.nodes, {
+        maxSolutions: 1,
+        maxBridges: puzzle.maxBridges,
+        diagonal: puzzle.diagonal,
+        obstacles: puzzle.obstacles,
+        capacity: puzzle.capacity,
+      });
+      if (solutions.length === 0) {
+        setImportError("This puzzle has no solution.");
+        return;
+      }
+      onImport(puzzle);
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : "The puzzle could not be read.");
+    }
+  };
+
+  const tabClass = (f: PuzzleFormatType) =>
+    `px-3 py-1 rounded text-sm font-bold transition ${format === f ? 'bg-white/20 text-white' : 'text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-[60] backdrop-blur-md">
+      <div className={`${isPenguin ? 'bg-sky-900 border-sky-600' : 'bg-slate-800 border-slate-600'} text-white p-6 rounded-lg max-w-lg w-full shadow-2xl border`}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className={`text-xl font-bold flex items-center gap-2 ${isPenguin ? 'text-cyan-400' : 'text-yellow-400'}`}>
+            <FileText size={20} /> Import / Export
+          </h3>
+          <button onClick={onClose} className="hover:text-red-400"><X size={20}/></button>
+        </div>
+
+        {/* Export */}
+        <div className="bg-black/20 rounded-lg p-4 mb-4 border border-white/10">
+          <div className="flex justify-between items-center mb-2">
+            <span className="font-bold flex items-center gap-2"><Download size={16} /> Export</span>
+            <div className="flex gap-1">
+              <button onClick={() => setFormat('text')} className={tabClass('text')}>Text</button>
+              <button onClick={() => setFormat('json')} className={tabClass('json')}>JSON</button>
+            </div>
+          </div>
+          <textarea
+            readOnly
+            value={exportText}
+            className="w-full h-32 bg-slate-900 text-slate-200 font-mono text-xs p-2 rounded border border-slate-600 resize-none"
+          />
+          <div className="flex justify-between items-center mt-2">
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={includeProgress}
+                onChange={e => setIncludeProgress(e.target.checked)}
+                className="w-4 h-4 accent-teal-500"
+              />
+              Include my cables
+            </label>
+            <button
+              onClick={() => navigator.clipboard?.writeText(exportText)}
+              className="px-3 py-1 bg-slate-600 hover:bg-slate-500 rounded font-bold text-sm flex items-center gap-1"
+            >
+              <Copy size={14} /> Copy
+            </button>
+          </div>
+        </div>
+
+        {/* Import */}
+        <div className="bg-black/20 rounded-lg p-4 border border-white/10">
+          <span className="font-bold flex items-center gap-2 mb-2"><Upload size={16} /> Import</span>
+          <textarea
+            value={importText}
+            onChange={e => { setImportText(e.target.value); setImportError(null); }}
+            placeholder={"2.3.2\n.....\n1.4.2"}
+            className="w-full h-32 bg-slate-900 text-slate-200 font-mono text-xs p-2 rounded border border-slate-600 resize-none"
+          />
+          <p className="text-xs text-slate-400 mt-1">
+            Text: digits are islands, <code>.</code> is empty, <code>#</code> is an obstacle, <code>-</code> <code>=</code> <code>≡</code> and <code>|</code> <code>"</code> <code>⦀</code> are single, double and triple bridges. A first line like <code>bridges: 3</code> or <code>diagonal: yes</code> sets a variant rule. JSON exports can be pasted back too.
+          </p>
+          {importError && <p className="text-sm text-red-400 mt-2">{importError}</p>}
+          <div className="flex justify-end mt-2">
+            <button
+              onClick={handleLoad}
+              disabled={!importText.trim()}
+              className="px-4 py-2 bg-green-600 hover:bg-green-500 rounded font-bold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Load Puzzle
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleIOModal;
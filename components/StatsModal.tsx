@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { BarChart3, Flame, Trash2, X } from 'lucide-react';
+import { Difficulty } from '../types';
+import { Profile, ProfileStore } from '../game/storage/ProfileStore';
+import { formatTime } from '../utils/time';
+
+interface StatsModalProps {
+  profile: Profile;
+  isPenguin: boolean;
+  onClose: () => void;
+  onClear: () => void;
+}
+
+const DIFFICULTY_COLORS: Record<Difficulty, string> = {
+  [Difficulty.EASY]: 'text-green-400',
+  [Difficulty.MEDIUM]: 'text-yellow-400',
+  [Difficulty.HARD]: 'text-red-400',
+};
+
+const StatsModal: React.FC<StatsModalProps> = ({ profile, isPenguin, onClose, onClear }) => {
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const stats = ProfileStore.getStats(profile);
+  const totals = ProfileStore.getTotals(profile);
+  const streaks = ProfileStore.getStreaks(profile);
+  const showTime = (seconds: number | null) => seconds === null ? '--:--' : formatTime(seconds);
+
+  return (
+    <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-[60] backdrop-blur-md">
+      <div className={`${isPenguin ? 'bg-sky-900 border-sky-600' : 'bg-slate-800 border-slate-600'} text-white p-6 rounded-lg max-w-lg w-full shadow-2xl border`}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className={`text-xl font-bold flex items-center gap-2 ${isPenguin ? 'text-cyan-400' : 'text-yellow-400'}`}>
+            <BarChart3 size={20} /> Lifetime Stats
+          </h3>
+          <button onClick={onClose} className="hover:text-red-400"><X size={20}/></button>
+        </div>
+
+        {/* Totals */}
+        <div className="grid grid-cols-4 gap-2 text-center bg-black/20 rounded-lg p-4 mb-4 border border-white/10">
+          <div>
+            <div className="text-2xl font-bold">{totals.completed}</div>
+            <div className="text-xs text-slate-400 uppercase">Solved</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold font-mono">{formatTime(totals.time)}</div>
+            <div className="text-xs text-slate-400 uppercase">Time</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold">{totals.hintsUsed}</div>
+            <div className="text-xs text-slate-400 uppercase">Hints</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold">{totals.undoCount}</div>
+            <div className="text-xs text-slate-400 uppercase">Undos</div>
+          </div>
+        </div>
+
+        {/* Streaks */}
+        <div className="flex justify-around items-center bg-black/20 rounded-lg p-3 mb-4 border border-white/10">
+          <div className="flex items-center gap-2">
+            <Flame size={20} className={streaks.current > 0 ? 'text-orange-400' : 'text-slate-500'} />
+            <span className="font-bold">{streaks.current}</span>
+            <span className="text-sm text-slate-400">day streak</span>
+          </div>
+          <div className="text-sm text-slate-400">
+            Longest: <span className="font-bold text-white">{streaks.longest}</span> {streaks.longest === 1 ? 'day' : 'days'}
+          </div>
+        </div>
+
+        {/* Per Difficulty */}
+        <table className="w-full text-sm font-mono mb-4">
+          <thead>
+            <tr className="text-slate-400 text-xs uppercase border-b border-white/20">
+              <th className="text-left py-2">Difficulty</th>
+              <th className="text-right py-2">Solved</th>
+              <th className="text-right py-2">Best</th>
+              <th className="text-right py-2">Average</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.values(Difficulty).map(d => (
+              <tr key={d} className="border-b border-white/10">
+                <td className={`py-2 capitalize font-bold ${DIFFICULTY_COLORS[d]}`}>{d}</td>
+                <td className="py-2 text-right">{stats[d].completed}</td>
+                <td className="py-2 text-right">{showTime(stats[d].bestTime)}</td>
+                <td className="py-2 text-right">{showTime(stats[d].averageTime)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex justify-end">
+          {confirmClear ? (
+            <div className="flex gap-2 items-center text-sm">
+              <span className="text-slate-300">Erase all stats?</span>
+              <button onClick={() => setConfirmClear(false)} className="px-3 py-1 bg-slate-600 hover:bg-slate-500 rounded font-bold">Cancel</button>
+              <button onClick={() => { onClear(); setConfirmClear(false); }} className="px-3 py-1 bg-red-600 hover:bg-red-500 rounded font-bold">Erase</button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmClear(true)}
+              disabled={profile.records.length === 0}
+              className="text-xs text-slate-400 hover:text-red-400 flex items-center gap-1 disabled:opacity-0"
+            >
+              <Trash2 size={14} /> Reset stats
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsModal;
@@ -0,0 +1,111 @@
+import { DEFAULT_MAX_BRIDGES, GridPoint, Theme, THEME_NOUNS } from '../../types';
+import { PuzzleFile } from '../systems/PuzzleFormat';
+import tutorialPack from './packs/tutorial.json';
+import villagePack from './packs/village.json';
+import townPack from './packs/town.json';
+
+// One hand-authored board
+export interface CampaignLevel {
+  id: string;
+  name: string;
+  intro?: string; // Shown when the level starts; {house} / {cable} follow the theme
+  parSeconds: number; // Solve within this for the third star
+  width: number;
+  height: number;
+  maxBridges?: number; // Variant rule; two per pair when absent
+  obstacles?: GridPoint[];
+  nodes: { id: string; x: number; y: number; requiredConnections: number }[];
+}
+
+export interface LevelPack {
+  id: string;
+  name: string;
+  description: string;
+  levels: CampaignLevel[];
+}
+
+export interface LevelRef {
+  packId: string;
+  levelId: string;
+}
+
+// Played in this order; each pack opens once the previous one is finished
+const PACKS: LevelPack[] = [tutorialPack, villagePack, townPack];
+
+const LEVEL_SEED_PREFIX = 'LEVEL:';
+
+/**
+ * Campaign levels: fixed boards from the JSON packs, loaded straight into GameScene.
+ */
+export class Campaign {
+  public static getPacks(): LevelPack[] {
+    return PACKS;
+  }
+
+  public static getLevel(ref: LevelRef): CampaignLevel | null {
+    const pack = PACKS.find(p => p.id === ref.packId);
+    return pack?.levels.find(l => l.id === ref.levelId) || null;
+  }
+
+  /** The level after this one, across pack boundaries; null after the last level. */
+  public static getNextLevel(ref: LevelRef): LevelRef | null {
+    const all = this.getAllRefs();
+    const index = all.findIndex(r => r.packId === ref.packId && r.levelId === ref.levelId);
+    return index >= 0 && index < all.length - 1 ? all[index + 1] : null;
+  }
+
+  /** A level is open once the one before it (in play order) has been solved. */
+  public static isUnlocked(ref: LevelRef, isSolved: (ref: LevelRef) => boolean): boolean {
+    const all = this.getAllRefs();
+    const index = all.findIndex(r => r.packId === ref.packId && r.levelId === ref.levelId);
+    return index === 0 || (index > 0 && isSolved(all[index - 1]));
+  }
+
+  /** 1 star for solving, 1 for using no hints, 1 for beating par time. */
+  public static getStars(level: CampaignLevel, seconds: number, hintsUsed: number): number {
+    return 1 + (hintsUsed === 0 ? 1 : 0) + (seconds <= level.parSeconds ? 1 : 0);
+  }
+
+  public static toPuzzleFile(level: CampaignLevel): PuzzleFile {
+    return {
+      width: level.width,
+      height: level.height,
+      maxBridges: level.maxBridges ?? DEFAULT_MAX_BRIDGES,
+      obstacles: level.obstacles,
+      nodes: level.nodes.map(n => ({ ...n, currentConnections: 0 })),
+      edges: [],
+    };
+  }
+
+  public static getIntro(level: CampaignLevel, theme: Theme): string | null {
+    if (!level.intro) return null;
+    const nouns = THEME_NOUNS[theme];
+    const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+    return level.intro
+      .replace(/\{house\}/g, nouns.house)
+      .replace(/\{House\}/g, capitalize(nouns.house))
+      .replace(/\{cable\}/g, nouns.cable)
+      .replace(/\{Cable\}/g, capitalize(nouns.cable));
+  }
+
+  /**
+   * Campaign boards travel through GameScene (and the autosave) under a seed of
+   * their own, so a resumed or solved board can be traced back to its level.
+   */
+  public static getLevelSeed(ref: LevelRef): string {
+    return `${LEVEL_SEED_PREFIX}${ref.packId}/${ref.levelId}`;
+  }
+
+  public static parseLevelSeed(seed: string): LevelRef | null {
+    if (!seed.startsWith(LEVEL_SEED_PREFIX)) return null;
+    const [packId, levelId] = seed.slice(LEVEL_SEED_PREFIX.length).split('/');
+    const ref = { packId, levelId };
+    return this.getLevel(ref) ? ref : null;
+  }
+
+  // --- Internals ---
+
+  private static getAllRefs(): LevelRef[] {
+    return PACKS.flatMap(p => p.levels.map(l => ({ packId: p.id, levelId: l.id })));
+  }
+}
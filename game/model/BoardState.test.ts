@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { GridPoint, NodeData } from '../../types';
+import { BoardChange, BoardState } from './BoardState';
+
+// A house at (x, y) that wants `required` cables
+const house = (id: string, x: number, y: number, required = 1): NodeData =>
+  ({ id, x, y, requiredConnections: required, currentConnections: 0 });
+
+const board = (nodes: NodeData[], rules: { maxBridges?: number, diagonal?: boolean, obstacles?: GridPoint[], capacity?: number } = {}) =>
+  new BoardState({ width: 5, height: 5, maxBridges: rules.maxBridges ?? 2, diagonal: rules.diagonal, obstacles: rules.obstacles, capacity: rules.capacity, nodes });
+
+describe('BoardState', () => {
+  describe('canConnect', () => {
+    // A plus: a-b runs down the middle column, c-d across the middle row
+    const plus = () => board([house('a', 2, 0), house('b', 2, 4), house('c', 0, 2), house('d', 4, 2)]);
+
+    it('joins houses in the same row or column only', () => {
+      const b = plus();
+      expect(b.canConnect('a', 'b')).toBe(true);
+      expect(b.canConnect('c', 'd')).toBe(true);
+      expect(b.canConnect('a', 'c')).toBe(false);
+    });
+
+    it('refuses a cable crossing another', () => {
+      const b = plus();
+      b.setCount('a', 'b', 1);
+      expect(b.canConnect('c', 'd')).toBe(false);
+      // Changing the existing cable itself is still fine
+      expect(b.canConnect('a', 'b')).toBe(true);
+    });
+
+    it('allows cables that only meet at a shared house', () => {
+      const b = board([house('a', 0, 0), house('b', 4, 0), house('c', 0, 4)]);
+      b.setCount('a', 'b', 1);
+      expect(b.canConnect('a', 'c')).toBe(true);
+    });
+
+    it('refuses a cable passing over a house or an obstacle', () => {
+      const b = board([house('a', 0, 0), house('b', 2, 0), house('c', 4, 0), house('d', 0, 4)], { obstacles: [{ x: 0, y: 2 }] });
+      expect(b.canConnect('a', 'c')).toBe(false);
+      expect(b.canConnect('a', 'b')).toBe(true);
+      expect(b.canConnect('a', 'd')).toBe(false);
+    });
+
+    it('allows diagonals only under the diagonal rule, with general crossings', () => {
+      const nodes = () => [house('a', 0, 0), house('b', 4, 4), house('c', 4, 0), house('d', 0, 4)];
+      expect(board(nodes()).canConnect('a', 'b')).toBe(false);
+
+      const b = board(nodes(), { diagonal: true });
+      expect(b.canConnect('a', 'b')).toBe(true);
+      b.setCount('a', 'b', 1);
+      expect(b.canConnect('c', 'd')).toBe(false);
+    });
+
+    it('refuses unknown houses and a house with itself', () => {
+      const b = plus();
+      expect(b.canConnect('a', 'a')).toBe(false);
+      expect(b.canConnect('a', 'zz')).toBe(false);
+    });
+  });
+
+  describe('toggle', () => {
+    it.each([1, 2, 3])('cycles 0 -> ... -> %i -> 0 cables', maxBridges => {
+      const b = board([house('a', 0, 0), house('b', 3, 0)], { maxBridges });
+      const seen: number[] = [];
+      for (let i = 0; i <= maxBridges; i++) {
+        expect(b.toggle('a', 'b')).toBe(true);
+        seen.push(b.getCount('a', 'b'));
+      }
+      expect(seen).toEqual([...Array.from({ length: maxBridges }, (_, i) => i + 1), 0]);
+    });
+
+    it('keeps both house counts in step', () => {
+      const b = board([house('a', 0, 0), house('b', 3, 0)]);
+      b.toggle('a', 'b');
+      b.toggle('a', 'b');
+      expect(b.getNode('a')!.currentConnections).toBe(2);
+      expect(b.getNode('b')!.currentConnections).toBe(2);
+      b.toggle('a', 'b');
+      expect(b.getNode('a')!.currentConnections).toBe(0);
+    });
+
+    it('does nothing where no cable may run', () => {
+      const b = board([house('a', 0, 0), house('b', 3, 1)]);
+      expect(b.toggle('a', 'b')).toBe(false);
+      expect(b.canUndo()).toBe(false);
+    });
+
+    it('only reports the two houses at the ends', () => {
+      const b = board([house('a', 0, 0), house('b', 3, 0), house('c', 0, 3)]);
+      const changed: string[] = [];
+      b.subscribe((change: BoardChange) => {
+        if (change.type === 'HOUSE') changed.push(change.node.id);
+      });
+      b.toggle('a', 'b');
+      expect(changed.sort()).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('history', () => {
+    it('undoes and redoes cables and pencil marks', () => {
+      const b = board([house('a', 0, 0), house('b', 3, 0)]);
+      b.toggle('a', 'b');
+      b.cycleMark('a', 'b');
+      b.toggle('a', 'b');
+
+      b.undo();
+      expect(b.getCount('a', 'b')).toBe(1);
+      b.undo();
+      expect(b.getAnnotation('a', 'b')).toBeNull();
+      b.redo();
+      expect(b.getAnnotation('a', 'b')).toBe('AT_LEAST_ONE');
+      expect(b.canRedo()).toBe(true);
+
+      // A new move drops what was undone
+      b.adjust('a', 'b', -1);
+      expect(b.canRedo()).toBe(false);
+      expect(b.getCount('a', 'b')).toBe(0);
+    });
+
+    it('clears cables, marks and history on reset', () => {
+      const b = board([house('a', 0, 0), house('b', 3, 0)]);
+      b.toggle('a', 'b');
+      b.cycleMark('a', 'b');
+      b.reset();
+      expect(b.getEdges()).toEqual([]);
+      expect(b.getAnnotations()).toEqual([]);
+      expect(b.canUndo()).toBe(false);
+      expect(b.getNode('a')!.currentConnections).toBe(0);
+    });
+  });
+
+  describe('isSolved', () => {
+    it('needs every count met and one network', () => {
+      // Two pairs: every count can be met without joining them
+      const b = board([house('a', 0, 0), house('b', 2, 0), house('c', 0, 2, 2), house('d', 2, 2, 2)]);
+      b.toggle('a', 'b');
+      b.toggle('c', 'd');
+      b.toggle('c', 'd');
+      expect(b.getNodes().every(n => n.currentConnections === n.requiredConnections)).toBe(true);
+      expect(b.isSolved()).toBe(false);
+    });
+
+    it('is solved once the network joins every house', () => {
+      const b = board([house('a', 0, 0, 1), house('b', 2, 0, 2), house('c', 2, 2, 1)]);
+      b.toggle('a', 'b');
+      expect(b.isSolved()).toBe(false);
+      b.toggle('b', 'c');
+      expect(b.isSolved()).toBe(true);
+      b.undo();
+      expect(b.isSolved()).toBe(false);
+    });
+
+    it('is never solved with an extra cable', () => {
+      const b = board([house('a', 0, 0), house('b', 2, 0)]);
+      b.toggle('a', 'b');
+      b.toggle('a', 'b');
+      expect(b.isSolved()).toBe(false);
+    });
+
+    it('is not solved on an empty board', () => {
+      expect(board([]).isSolved()).toBe(false);
+    });
+
+    it('needs the plant to supply every house under the power-flow rule', () => {
+      // The plant is b, which must send power for c, d and e through its one cable to c
+      const chain = (capacity: number) => {
+        const b = board([house('a', 0, 0), house('b', 1, 0, 2), house('c', 2, 0, 2), house('d', 3, 0, 2), house('e', 4, 0)], { capacity });
+        b.toggle('a', 'b');
+        b.toggle('b', 'c');
+        b.toggle('c', 'd');
+        b.toggle('d', 'e');
+        return b;
+      };
+      expect(chain(3).isSolved()).toBe(true);
+      expect(chain(2).isSolved()).toBe(false);
+      expect(chain(2).getRules().capacity).toBe(2);
+    });
+  });
+});
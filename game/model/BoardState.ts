@@ -0,0 +1,367 @@
+import { AnnotationData, AnnotationMark, BoardSnapshot, EdgeData, GridPoint, MoveAction, NodeData } from '../../types';
+import { DisjointSet } from '../systems/DisjointSet';
+import { GridGeometry } from '../systems/GridGeometry';
+import { PowerFlow } from '../systems/PowerFlow';
+
+// Size and variant rules of a board, as saved and exported
+export type BoardRules = Omit<BoardSnapshot, 'nodes' | 'edges'>;
+
+// What changed, for whoever draws the board
+export type BoardChange =
+  | { type: 'CABLE', nodeA: string, nodeB: string, count: number }
+  | { type: 'MARK', nodeA: string, nodeB: string, mark: AnnotationMark | null }
+  | { type: 'HOUSE', node: NodeData } // Its current or required count changed
+  | { type: 'HISTORY', canUndo: boolean, canRedo: boolean };
+
+export type BoardListener = (change: BoardChange) => void;
+
+/**
+ * The rules of play without a canvas: houses, cables, pencil marks, the undo history and
+ * the win check. Scenes draw it by subscribing; tests, the solver tools and a CLI can drive
+ * it directly. House counts are kept up to date cable by cable, so a move only touches
+ * (and reports) the two houses at its ends.
+ */
+export class BoardState {
+  public readonly width: number;
+  public readonly height: number;
+  public readonly maxBridges: number;
+  public readonly diagonal: boolean;
+  public readonly capacity: number; // Houses one cable can supply; 0 without the power-flow rule
+  private obstacles: GridPoint[];
+
+  private nodes: NodeData[] = [];
+  private nodeById: Map<string, NodeData> = new Map();
+  private edges: Map<string, EdgeData> = new Map(); // Key: "idA-idB" (sorted)
+  private annotations: Map<string, AnnotationData> = new Map(); // Pencil marks, same keys as edges
+  private unsatisfiedCount = 0; // Houses whose cables don't add up to their number yet
+
+  // Undo / Redo History
+  private history: MoveAction[] = [];
+  private redoStack: MoveAction[] = []; // Undone moves, cleared by any new move
+
+  private listeners: BoardListener[] = [];
+
+  constructor(board: Omit<BoardSnapshot, 'edges'>) {
+    this.width = board.width;
+    this.height = board.height;
+    this.maxBridges = board.maxBridges;
+    this.diagonal = !!board.diagonal;
+    this.capacity = board.capacity ?? 0;
+    this.obstacles = board.obstacles ?? [];
+    board.nodes.forEach(n => this.addNode(n));
+  }
+
+  public static getEdgeKey(idA: string, idB: string): string {
+    return idA < idB ? `${idA}-${idB}` : `${idB}-${idA}`;
+  }
+
+  /**
+   * Calls `listener` after every change; returns a function that unsubscribes it.
+   */
+  public subscribe(listener: BoardListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // --- Reading ---
+
+  public getRules(): BoardRules {
+    const rules: BoardRules = { width: this.width, height: this.height, maxBridges: this.maxBridges };
+    if (this.diagonal) rules.diagonal = true;
+    if (this.obstacles.length > 0) rules.obstacles = this.obstacles;
+    if (this.capacity > 0) rules.capacity = this.capacity;
+    return rules;
+  }
+
+  public getObstacles(): GridPoint[] {
+    return this.obstacles;
+  }
+
+  public getNodes(): NodeData[] {
+    return this.nodes;
+  }
+
+  public getNode(id: string): NodeData | undefined {
+    return this.nodeById.get(id);
+  }
+
+  public getEdges(): EdgeData[] {
+    return Array.from(this.edges.values());
+  }
+
+  public getCount(idA: string, idB: string): number {
+    return this.edges.get(BoardState.getEdgeKey(idA, idB))?.count || 0;
+  }
+
+  public getAnnotations(): AnnotationData[] {
+    return Array.from(this.annotations.values());
+  }
+
+  public getAnnotation(idA: string, idB: string): AnnotationMark | null {
+    return this.annotations.get(BoardState.getEdgeKey(idA, idB))?.mark || null;
+  }
+
+  public getHistory(): MoveAction[] {
+    return this.history;
+  }
+
+  public getRedoStack(): MoveAction[] {
+    return this.redoStack;
+  }
+
+  public canUndo(): boolean {
+    return this.history.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // --- Rules ---
+
+  public canConnect(idA: string, idB: string): boolean {
+    const dA = this.nodeById.get(idA);
+    const dB = this.nodeById.get(idB);
+    if (!dA || !dB || dA === dB) return false;
+
+    // 1. Straight line check (orthogonal, or diagonal under that rule)
+    if (!GridGeometry.isAligned(dA, dB, this.diagonal)) return false;
+
+    // 2. Node or obstacle between check
+    if (GridGeometry.isNodeBetween(dA, dB, this.nodes)) return false;
+    if (GridGeometry.isObstacleBetween(dA, dB, this.obstacles)) return false;
+
+    // 3. Cable crossing check
+    for (const edge of this.edges.values()) {
+      // Skip if connected to same nodes (updating existing edge is fine)
+      if (edge.nodeA === idA || edge.nodeA === idB ||
+          edge.nodeB === idA || edge.nodeB === idB) continue;
+
+      const n1 = this.nodeById.get(edge.nodeA)!;
+      const n2 = this.nodeById.get(edge.nodeB)!;
+      if (GridGeometry.linesCross(dA, dB, n1, n2)) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Pencil marks only need the two houses to see each other; cables don't block them, obstacles do.
+   */
+  public canAnnotate(idA: string, idB: string): boolean {
+    const dA = this.nodeById.get(idA);
+    const dB = this.nodeById.get(idB);
+    if (!dA || !dB || dA === dB) return false;
+    return GridGeometry.isAligned(dA, dB, this.diagonal) &&
+      !GridGeometry.isNodeBetween(dA, dB, this.nodes) &&
+      !GridGeometry.isObstacleBetween(dA, dB, this.obstacles);
+  }
+
+  // Cycles 0 -> 1 -> ... -> maxBridges -> 0
+  public nextCount(idA: string, idB: string): number {
+    const current = this.getCount(idA, idB);
+    return current >= this.maxBridges ? 0 : current + 1;
+  }
+
+  /**
+   * Solved once every house has exactly its number of cables, no pair goes over the bridge
+   * rule and the cables join all houses into one network; under the power-flow rule the
+   * plant must also be able to supply every house through it.
+   */
+  public isSolved(): boolean {
+    if (this.nodes.length === 0 || this.unsatisfiedCount > 0) return false;
+    const edges = this.getEdges();
+    if (edges.some(e => e.count > this.maxBridges)) return false;
+
+    const index = new Map(this.nodes.map((n, i) => [n.id, i]));
+    const network = new DisjointSet(this.nodes.length);
+    edges.forEach(e => network.union(index.get(e.nodeA)!, index.get(e.nodeB)!));
+    if (network.count !== 1) return false;
+    return this.capacity === 0 || PowerFlow.suppliesAll(this.nodes, edges, this.capacity);
+  }
+
+  // --- Moves (recorded for undo) ---
+
+  /**
+   * A move in play: cycles the cable count between two houses if a cable may run there.
+   */
+  public toggle(idA: string, idB: string): boolean {
+    return this.move(idA, idB, this.nextCount(idA, idB));
+  }
+
+  // Adds (delta 1) or removes (delta -1) one cable between two houses
+  public adjust(idA: string, idB: string, delta: number): boolean {
+    return this.move(idA, idB, Math.max(0, Math.min(this.maxBridges, this.getCount(idA, idB) + delta)));
+  }
+
+  // Pencil marks cycle none -> at least one -> no bridge -> none
+  public cycleMark(idA: string, idB: string): boolean {
+    const current = this.getAnnotation(idA, idB);
+    return this.mark(idA, idB, current === null ? 'AT_LEAST_ONE' : current === 'AT_LEAST_ONE' ? 'NO_BRIDGE' : null);
+  }
+
+  public mark(idA: string, idB: string, mark: AnnotationMark | null): boolean {
+    const previousMark = this.getAnnotation(idA, idB);
+    if (previousMark === mark || !this.canAnnotate(idA, idB)) return false;
+
+    this.record({ kind: 'ANNOTATION', nodeAId: idA, nodeBId: idB, previousMark });
+    this.setMark(idA, idB, mark);
+    return true;
+  }
+
+  /**
+   * Reverts the last move. Returns the move as it was recorded, or null with nothing to undo.
+   */
+  public undo(): MoveAction | null {
+    const move = this.history.pop();
+    if (!move) return null;
+    this.redoStack.push(this.applyMove(move));
+    this.emitHistory();
+    return move;
+  }
+
+  public redo(): MoveAction | null {
+    const move = this.redoStack.pop();
+    if (!move) return null;
+    this.history.push(this.applyMove(move));
+    this.emitHistory();
+    return move;
+  }
+
+  // Saved boards bring their history along
+  public restoreHistory(history: MoveAction[], redoStack: MoveAction[]) {
+    this.history = history.slice();
+    this.redoStack = redoStack.slice();
+    this.emitHistory();
+  }
+
+  // Removes every cable and mark, and the history with them
+  public reset() {
+    this.getEdges().forEach(e => this.setCount(e.nodeA, e.nodeB, 0));
+    this.getAnnotations().forEach(a => this.setMark(a.nodeA, a.nodeB, null));
+    this.restoreHistory([], []);
+  }
+
+  // --- Direct changes (loading a board, editing) ---
+
+  public setCount(idA: string, idB: string, count: number) {
+    const previous = this.getCount(idA, idB);
+    if (count === previous) return;
+
+    const key = BoardState.getEdgeKey(idA, idB);
+    if (count === 0) {
+      this.edges.delete(key);
+    } else {
+      this.edges.set(key, { nodeA: idA, nodeB: idB, count });
+    }
+    this.emit({ type: 'CABLE', nodeA: idA, nodeB: idB, count });
+    this.addToCount(idA, count - previous);
+    this.addToCount(idB, count - previous);
+  }
+
+  public setMark(idA: string, idB: string, mark: AnnotationMark | null) {
+    const key = BoardState.getEdgeKey(idA, idB);
+    if (mark === null) {
+      this.annotations.delete(key);
+    } else {
+      this.annotations.set(key, { nodeA: idA, nodeB: idB, mark });
+    }
+    this.emit({ type: 'MARK', nodeA: idA, nodeB: idB, mark });
+  }
+
+  public addNode(node: NodeData): NodeData {
+    const added = { ...node, currentConnections: 0 };
+    this.nodes.push(added);
+    this.nodeById.set(added.id, added);
+    if (!this.isSatisfied(added)) this.unsatisfiedCount++;
+    return added;
+  }
+
+  // Takes the house's cables and marks with it
+  public removeNode(id: string) {
+    const node = this.nodeById.get(id);
+    if (!node) return;
+    this.getEdges().forEach(e => {
+      if (e.nodeA === id || e.nodeB === id) this.setCount(e.nodeA, e.nodeB, 0);
+    });
+    this.getAnnotations().forEach(a => {
+      if (a.nodeA === id || a.nodeB === id) this.setMark(a.nodeA, a.nodeB, null);
+    });
+
+    if (!this.isSatisfied(node)) this.unsatisfiedCount--;
+    this.nodes = this.nodes.filter(n => n !== node);
+    this.nodeById.delete(id);
+  }
+
+  // Only the editor changes this: its counts follow the cables drawn
+  public setRequired(id: string, count: number) {
+    const node = this.nodeById.get(id);
+    if (!node || node.requiredConnections === count) return;
+    const wasSatisfied = this.isSatisfied(node);
+    node.requiredConnections = count;
+    this.updateSatisfied(node, wasSatisfied);
+    this.emit({ type: 'HOUSE', node });
+  }
+
+  public setObstacles(obstacles: GridPoint[]) {
+    this.obstacles = obstacles;
+  }
+
+  // --- Internals ---
+
+  private move(idA: string, idB: string, count: number): boolean {
+    const previousCount = this.getCount(idA, idB);
+    if (count === previousCount || !this.canConnect(idA, idB)) return false;
+
+    this.record({ nodeAId: idA, nodeBId: idB, previousCount });
+    this.setCount(idA, idB, count);
+    return true;
+  }
+
+  private record(move: MoveAction) {
+    this.history.push(move);
+    this.redoStack = [];
+    this.emitHistory();
+  }
+
+  // Restores the cable count (or pencil mark) recorded in a move and returns the move that reverses it
+  private applyMove(move: MoveAction): MoveAction {
+    if (move.kind === 'ANNOTATION') {
+      const currentMark = this.getAnnotation(move.nodeAId, move.nodeBId);
+      this.setMark(move.nodeAId, move.nodeBId, move.previousMark);
+      return { kind: 'ANNOTATION', nodeAId: move.nodeAId, nodeBId: move.nodeBId, previousMark: currentMark };
+    }
+
+    const currentCount = this.getCount(move.nodeAId, move.nodeBId);
+    this.setCount(move.nodeAId, move.nodeBId, move.previousCount);
+    return { nodeAId: move.nodeAId, nodeBId: move.nodeBId, previousCount: currentCount };
+  }
+
+  private addToCount(id: string, delta: number) {
+    const node = this.nodeById.get(id);
+    if (!node) return;
+    const wasSatisfied = this.isSatisfied(node);
+    node.currentConnections += delta;
+    this.updateSatisfied(node, wasSatisfied);
+    this.emit({ type: 'HOUSE', node });
+  }
+
+  private updateSatisfied(node: NodeData, wasSatisfied: boolean) {
+    const satisfied = this.isSatisfied(node);
+    if (satisfied !== wasSatisfied) this.unsatisfiedCount += satisfied ? -1 : 1;
+  }
+
+  private isSatisfied(node: NodeData): boolean {
+    return node.currentConnections === node.requiredConnections;
+  }
+
+  private emitHistory() {
+    this.emit({ type: 'HISTORY', canUndo: this.canUndo(), canRedo: this.canRedo() });
+  }
+
+  private emit(change: BoardChange) {
+    this.listeners.forEach(listener => listener(change));
+  }
+}
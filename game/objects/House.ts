@@ -27,8 +27,11 @@ export class House extends Phaser.GameObjects.Container {
   private highlight: Phaser.GameObjects.Graphics;
   
   private isPowered: boolean = false;
+  private isPlant: boolean = false; // Source under the power-flow rule
   private isSelected: boolean = false;
+  private isFocused: boolean = false; // Keyboard cursor
   private isSatisfied: boolean = false;
+  private hint: 'MOVE' | 'MISTAKE' | null = null;
 
   // Store references to penguins for animation
   private activePenguins: Phaser.GameObjects.Container[] = [];
@@ -71,6 +74,23 @@ export class House extends Phaser.GameObjects.Container {
     this.redraw();
   }
 
+  public setFocus(focused: boolean) {
+    this.isFocused = focused;
+    this.redraw();
+  }
+
+  public setHint(hint: 'MOVE' | 'MISTAKE' | null) {
+    this.hint = hint;
+    this.redraw();
+  }
+
+  public setPlant(plant: boolean) {
+    if (this.isPlant !== plant) {
+      this.isPlant = plant;
+      this.redraw();
+    }
+  }
+
   public setPowered(powered: boolean) {
     if (this.isPowered !== powered) {
       this.isPowered = powered;
@@ -89,6 +109,19 @@ export class House extends Phaser.GameObjects.Container {
     }
   }
 
+  // Only the editor changes this after creation: its counts follow the cables drawn
+  public setRequiredConnections(count: number) {
+    this.dataModel.requiredConnections = count;
+    if (this.text) this.text.setText(count.toString());
+    if (this.theme === Theme.PENGUINS) {
+      // New colony: cheering restarts below if the count is already met
+      if (this.isSatisfied) this.stopCheering();
+      this.isSatisfied = false;
+      this.buildPenguins(count);
+    }
+    this.updateConnectionCount(this.dataModel.currentConnections);
+  }
+
   public updateConnectionCount(count: number) {
     this.dataModel.currentConnections = count;
     const satisfied = this.dataModel.currentConnections === this.dataModel.requiredConnections;
@@ -154,6 +187,18 @@ export class House extends Phaser.GameObjects.Container {
     const w = 50;
     const h = 40;
 
+    // --- PLANT MARKER ---
+    // The power grid draws its plant as a building; other themes get a dashed gold ring
+    if (this.isPlant && this.theme !== Theme.POWER_GRID) {
+      this.highlight.lineStyle(3, 0xf59e0b, 0.9);
+      for (let i = 0; i < 12; i++) {
+        const start = (i / 12) * Math.PI * 2;
+        this.highlight.beginPath();
+        this.highlight.arc(0, 0, 50, start, start + Math.PI / 12);
+        this.highlight.strokePath();
+      }
+    }
+
     // --- SELECTION HIGHLIGHT ---
     if (this.isSelected) {
       const color = this.theme === Theme.POWER_GRID ? 0xffff00 : this.theme === Theme.CITY ? 0x34d399 : 0x00e5ff;
@@ -161,11 +206,32 @@ export class House extends Phaser.GameObjects.Container {
       this.highlight.strokeCircle(0, 0, 45); // Centered since we setOrigin 0.5 on text/floe
     }
 
+    // --- KEYBOARD FOCUS ---
+    // Rounded square in black and white so it reads on every theme and never looks like the selection circle
+    if (this.isFocused) {
+      this.highlight.lineStyle(6, 0x000000, 0.8);
+      this.highlight.strokeRoundedRect(-44, -44, 88, 88, 14);
+      this.highlight.lineStyle(3, 0xffffff, 1);
+      this.highlight.strokeRoundedRect(-44, -44, 88, 88, 14);
+    }
+
+    // --- HINT HIGHLIGHT ---
+    // Filled halo so it reads differently from the selection ring
+    if (this.hint) {
+      const color = this.hint === 'MISTAKE' ? 0xff1744 : 0xe040fb;
+      this.highlight.fillStyle(color, 0.35);
+      this.highlight.fillCircle(0, 0, 40);
+      this.highlight.lineStyle(2, color, 0.9);
+      this.highlight.strokeCircle(0, 0, 40);
+    }
+
     // --- STATUS CHECK ---
     const satisfied = this.dataModel.currentConnections === this.dataModel.requiredConnections;
     const overflow = this.dataModel.currentConnections > this.dataModel.requiredConnections;
 
-    if (this.theme === Theme.POWER_GRID) {
+    if (this.theme === Theme.POWER_GRID && this.isPlant) {
+      this.drawPowerPlant(w, h, satisfied, overflow);
+    } else if (this.theme === Theme.POWER_GRID) {
       this.drawPowerGridHouse(w, h, satisfied, overflow);
     } else if (this.theme === Theme.CITY) {
       this.drawCityBuilding(w, h, satisfied, overflow);
@@ -261,6 +327,44 @@ export class House extends Phaser.GameObjects.Container {
      }
   }
 
+  private drawPowerPlant(w: number, h: number, satisfied: boolean, overflow: boolean) {
+     const wallColor = this.isPowered ? 0xffcc00 : 0x78909c; // Gold or Steel Grey
+     const roofColor = this.isPowered ? 0xffeb3b : 0x455a64;
+
+     // Chimney behind the hall, with a puff of smoke
+     this.content.fillStyle(roofColor);
+     this.content.fillRect(w/2 - 14, -h/2 - 22, 10, 32);
+     this.content.fillStyle(0xeceff1, 0.8);
+     this.content.fillCircle(w/2 - 6, -h/2 - 28, 6);
+     this.content.fillCircle(w/2 + 2, -h/2 - 34, 4);
+
+     // Hall with a saw-tooth roof
+     this.base.fillStyle(wallColor);
+     this.base.fillRect(-w/2 - 4, -h/2 + 10, w + 8, h);
+     this.content.fillStyle(roofColor);
+     this.content.beginPath();
+     this.content.moveTo(-w/2 - 4, -h/2 + 10);
+     this.content.lineTo(-w/2 - 4, -h/2 - 2);
+     this.content.lineTo(-w/2 + 14, -h/2 + 10);
+     this.content.lineTo(-w/2 + 14, -h/2 - 2);
+     this.content.lineTo(-w/2 + 32, -h/2 + 10);
+     this.content.closePath();
+     this.content.fill();
+
+     // Lightning bolt on the door
+     this.base.fillStyle(0x263238);
+     this.base.fillRect(-10, 10, 20, 20);
+     this.base.fillStyle(0xffeb3b);
+     this.base.fillTriangle(2, 12, -5, 22, 1, 22);
+     this.base.fillTriangle(-1, 20, 5, 20, -2, 29);
+
+     if (this.text) {
+        if (overflow) this.text.setColor('#ff4444');
+        else if (satisfied) this.text.setColor('#aaffaa');
+        else this.text.setColor('#ffffff');
+     }
+  }
+
   private drawPenguinFloe(satisfied: boolean, overflow: boolean) {
     // Floe Visual
     let floeColor = 0xe1f5fe; // Ice White
@@ -345,7 +449,7 @@ export class House extends Phaser.GameObjects.Container {
   }
 
   private getPenguinPositions(count: number): {x: number, y: number}[] {
-      // Hardcoded pleasant arrangements for 1-8 penguins
+      // Hardcoded pleasant arrangements for 1-8 penguins, rings beyond that
       const offsets: {x: number, y: number}[] = [];
       
       switch (count) {
@@ -382,6 +486,17 @@ export class House extends Phaser.GameObjects.Container {
                    offsets.push({x: Math.cos(angle) * 22, y: Math.sin(angle) * 16});
                }
                break;
+          default:
+              // Bigger colonies (three-bridge rules): an inner ring of 4, the rest around it
+               for(let i=0; i<4; i++) {
+                   const angle = (i / 4) * Math.PI * 2 + Math.PI / 4;
+                   offsets.push({x: Math.cos(angle) * 9, y: Math.sin(angle) * 7});
+               }
+               for(let i=0; i<count-4; i++) {
+                   const angle = (i / (count - 4)) * Math.PI * 2;
+                   offsets.push({x: Math.cos(angle) * 24, y: Math.sin(angle) * 17});
+               }
+               break;
       }
       return offsets;
   }
@@ -0,0 +1,127 @@
+import Phaser from 'phaser';
+import { GridPoint, Theme } from '../../types';
+
+/**
+ * A blocked grid point: a rock among the houses, a lake in the ice, a skyscraper in the city.
+ * Only a picture; BoardState and the solver keep cables off the point itself.
+ */
+export class Obstacle extends Phaser.GameObjects.Container {
+  public readonly point: GridPoint;
+
+  // Explicitly declare inherited properties to resolve TypeScript errors
+  declare setScale: (x: number, y?: number) => this;
+  declare add: (child: Phaser.GameObjects.GameObject | Phaser.GameObjects.GameObject[]) => this;
+
+  private art: Phaser.GameObjects.Graphics;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, point: GridPoint, scale: number, theme: Theme) {
+    super(scene, x, y);
+    this.point = point;
+    this.setScale(scale);
+
+    this.art = scene.make.graphics({ x: 0, y: 0 }, false);
+    this.add(this.art);
+
+    if (theme === Theme.PENGUINS) {
+      this.drawLake();
+    } else if (theme === Theme.CITY) {
+      this.drawSkyscraper();
+    } else {
+      this.drawRock();
+    }
+  }
+
+  private drawRock() {
+    const g = this.art;
+    // Shadow
+    g.fillStyle(0x33691e, 0.5);
+    g.fillEllipse(4, 16, 52, 16);
+
+    // Boulder body
+    g.fillStyle(0x757575);
+    g.fillPoints([
+      new Phaser.Math.Vector2(-24, 14),
+      new Phaser.Math.Vector2(-20, -8),
+      new Phaser.Math.Vector2(-6, -20),
+      new Phaser.Math.Vector2(12, -16),
+      new Phaser.Math.Vector2(24, 0),
+      new Phaser.Math.Vector2(20, 16),
+    ], true);
+
+    // Lit face
+    g.fillStyle(0x9e9e9e);
+    g.fillPoints([
+      new Phaser.Math.Vector2(-20, -8),
+      new Phaser.Math.Vector2(-6, -20),
+      new Phaser.Math.Vector2(12, -16),
+      new Phaser.Math.Vector2(2, -4),
+    ], true);
+
+    // Cracks
+    g.lineStyle(2, 0x424242, 0.8);
+    g.beginPath();
+    g.moveTo(2, -4);
+    g.lineTo(6, 8);
+    g.moveTo(2, -4);
+    g.lineTo(-10, 4);
+    g.strokePath();
+  }
+
+  private drawLake() {
+    const g = this.art;
+    // Jagged ice rim
+    g.fillStyle(0xe1f5fe);
+    const rim: Phaser.Math.Vector2[] = [];
+    for (let i = 0; i < 16; i++) {
+      const angle = (i / 16) * Math.PI * 2;
+      const radius = i % 2 === 0 ? 30 : 25;
+      rim.push(new Phaser.Math.Vector2(Math.cos(angle) * radius, Math.sin(angle) * radius * 0.8));
+    }
+    g.fillPoints(rim, true);
+
+    // Open water
+    g.fillStyle(0x01579b);
+    g.fillEllipse(0, 0, 40, 30);
+    g.fillStyle(0x002f6c);
+    g.fillEllipse(2, 2, 26, 18);
+
+    // Ripples
+    g.lineStyle(2, 0x4fc3f7, 0.6);
+    g.beginPath();
+    g.moveTo(-12, -4);
+    g.lineTo(-4, -6);
+    g.moveTo(4, 6);
+    g.lineTo(12, 4);
+    g.strokePath();
+  }
+
+  private drawSkyscraper() {
+    const g = this.art;
+    // Shadow cast on the pavement
+    g.fillStyle(0x64748b, 0.5);
+    g.fillRect(-14, -20, 40, 48);
+
+    // Tower
+    g.fillStyle(0x334155);
+    g.fillRect(-20, -30, 40, 54);
+    g.fillStyle(0x1e293b);
+    g.fillRect(-20, -34, 40, 6);
+
+    // Rows of windows
+    g.fillStyle(0x93c5fd, 0.8);
+    for (let row = 0; row < 5; row++) {
+      for (let col = 0; col < 3; col++) {
+        g.fillRect(-15 + col * 11, -24 + row * 10, 8, 6);
+      }
+    }
+
+    // Antenna
+    g.lineStyle(2, 0x1e293b);
+    g.beginPath();
+    g.moveTo(0, -34);
+    g.lineTo(0, -44);
+    g.strokePath();
+    g.fillStyle(0xef4444);
+    g.fillCircle(0, -45, 2.5);
+  }
+}
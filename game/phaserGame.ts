@@ -1,5 +1,6 @@
 import Phaser from 'phaser';
 import { GameScene } from './scenes/GameScene';
+import { EditorScene } from './scenes/EditorScene';
 
 export const config: Phaser.Types.Core.GameConfig = {
   type: Phaser.AUTO,
@@ -11,7 +12,7 @@ export const config: Phaser.Types.Core.GameConfig = {
     width: 1024,
     height: 768,
   },
-  scene: [GameScene],
+  scene: [GameScene, EditorScene], // Only the first starts on boot
   // disable banner for clean console
   banner: false, 
 };
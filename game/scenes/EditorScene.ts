@@ -0,0 +1,483 @@
+import Phaser from 'phaser';
+import { BoardChange, BoardState } from '../model/BoardState';
+import { House } from '../objects/House';
+import { Obstacle } from '../objects/Obstacle';
+import { CableDrag } from '../systems/CableDrag';
+import { CableManager } from '../systems/CableManager';
+import { GridGeometry } from '../systems/GridGeometry';
+import { HashiSolver, SolverBudgetError } from '../systems/HashiSolver';
+import { PowerFlow } from '../systems/PowerFlow';
+import { PuzzleGrader } from '../systems/PuzzleGrader';
+import { BoardSnapshot, CUSTOM_DIFFICULTY_LIMITS, DEFAULT_MAX_BRIDGES, EdgeData, EditorStatus, EditorTool, GridPoint, NodeData, Theme, THEME_NOUNS } from '../../types';
+
+// Grid sizes the editor offers
+export const EDITOR_MIN_SIZE = 3;
+export const EDITOR_MAX_SIZE = CUSTOM_DIFFICULTY_LIMITS.size[1];
+
+// Quiet time (ms) after an edit before the solution check runs, so a burst of clicks checks once
+const CHECK_DELAY = 250;
+
+// Search steps the solution check may take; hand-made boards that need more are reported as too complex
+const CHECK_STEP_BUDGET = 10000;
+
+const BACKGROUND_COLORS: Record<Theme, number> = {
+  [Theme.POWER_GRID]: 0x8bc34a,
+  [Theme.PENGUINS]: 0x0d47a1,
+  [Theme.CITY]: 0xcbd5e1,
+};
+
+/**
+ * Board designer. Houses and obstacles are placed on empty grid points and the intended solution
+ * is drawn with the same cable rules as play; each house's required count is the sum of its cables.
+ * Runs alongside GameScene, which sleeps while the editor is open.
+ */
+export class EditorScene extends Phaser.Scene {
+  // Explicitly declare inherited properties to resolve TypeScript errors
+  declare events: Phaser.Events.EventEmitter;
+  declare add: Phaser.GameObjects.GameObjectFactory;
+  declare scale: Phaser.Scale.ScaleManager;
+  declare children: Phaser.GameObjects.DisplayList;
+  declare input: Phaser.Input.InputPlugin;
+  declare time: Phaser.Time.Clock;
+
+  private board!: BoardState; // The design's houses and cables; required counts follow the cables
+  private houses: House[] = [];
+  private houseById: Map<string, House> = new Map();
+  private obstacles: Obstacle[] = [];
+  private cableManager!: CableManager;
+  private theme: Theme = Theme.POWER_GRID;
+  private tool: EditorTool = 'HOUSES';
+  private inputPaused: boolean = false; // Set by React while a modal covers the board
+  private nextId = 0;
+  private pendingCheck: Phaser.Time.TimerEvent | null = null;
+
+  // Click-then-click and drag cable drawing, as in GameScene
+  private selectedHouse: House | null = null;
+  private cableDrag!: CableDrag;
+
+  // Grid config
+  private gridWidth = 7;
+  private gridHeight = 7;
+  private maxBridges = DEFAULT_MAX_BRIDGES;
+  private diagonal = false;
+  private capacity = 0; // Power-flow rule; 0 for none
+  private gridOffsetX = 0;
+  private gridOffsetY = 0;
+  private cellSize = 80;
+
+  // React Bridge
+  public onEvent?: (event: any) => void;
+
+  constructor() {
+    super('EditorScene');
+  }
+
+  create(data?: { theme?: Theme }) {
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => this.handlePointerDown(pointer));
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => this.cableDrag.move(pointer));
+    this.input.on('pointerup', () => this.cableDrag.end());
+    this.input.on('pointerupoutside', () => this.cableDrag.end());
+
+    // The design on screen survives sleeping (e.g. during a play-test); only the theme may have changed
+    this.events.on('wake', (_sys: Phaser.Scenes.Systems, wakeData?: { theme?: Theme }) => {
+      this.loadBoard(this.getBoard(), wakeData?.theme ?? this.theme);
+    });
+
+    this.events.on('EDITOR_IMPORT', (board: BoardSnapshot) => {
+      this.importBoard(board);
+    });
+
+    this.events.on('EDITOR_RESIZE', (data: { width: number, height: number }) => {
+      this.resize(data.width, data.height);
+    });
+
+    this.events.on('EDITOR_SET_MAX_BRIDGES', (maxBridges: number) => {
+      this.setMaxBridges(maxBridges);
+    });
+
+    this.events.on('EDITOR_SET_DIAGONAL', (diagonal: boolean) => {
+      this.setDiagonal(diagonal);
+    });
+
+    this.events.on('EDITOR_SET_CAPACITY', (capacity: number) => {
+      this.loadBoard({ ...this.getBoard(), capacity }, this.theme);
+    });
+
+    this.events.on('EDITOR_CLEAR', () => {
+      this.loadBoard({ ...this.getBoard(), nodes: [], edges: [], obstacles: [] }, this.theme);
+    });
+
+    this.events.on('EDITOR_SET_TOOL', (tool: EditorTool) => {
+      this.tool = tool;
+      this.clearSelection();
+    });
+
+    this.events.on('SET_INPUT_PAUSED', (paused: boolean) => {
+      this.inputPaused = paused;
+    });
+
+    this.loadBoard({ width: this.gridWidth, height: this.gridHeight, maxBridges: this.maxBridges, diagonal: this.diagonal, capacity: this.capacity, nodes: [], edges: [] }, data?.theme ?? this.theme);
+  }
+
+  private getBoard(): BoardSnapshot {
+    return {
+      width: this.gridWidth,
+      height: this.gridHeight,
+      maxBridges: this.maxBridges,
+      diagonal: this.diagonal,
+      obstacles: this.getObstaclePoints(),
+      capacity: this.capacity,
+      nodes: this.board.getNodes().map(n => ({ ...n })),
+      edges: this.board.getEdges(),
+    };
+  }
+
+  private getObstaclePoints(): GridPoint[] {
+    return this.obstacles.map(o => ({ ...o.point }));
+  }
+
+  /**
+   * Replaces the design. The board's edges are taken as the intended solution.
+   */
+  private loadBoard(board: BoardSnapshot, theme: Theme) {
+    this.theme = theme;
+    this.gridWidth = board.width;
+    this.gridHeight = board.height;
+    this.maxBridges = board.maxBridges;
+    this.diagonal = !!board.diagonal;
+    this.capacity = board.capacity ?? 0;
+    this.selectedHouse = null;
+
+    this.children.removeAll();
+    this.drawGrid();
+    this.obstacles = [];
+    board.obstacles?.forEach(p => this.addObstacle(p.x, p.y));
+    this.board = new BoardState({
+      width: board.width,
+      height: board.height,
+      maxBridges: board.maxBridges,
+      diagonal: this.diagonal,
+      obstacles: this.getObstaclePoints(),
+      capacity: this.capacity,
+      nodes: [],
+    });
+    this.board.subscribe(change => this.onBoardChange(change));
+    this.cableManager = new CableManager(this, this.board, id => this.houseById.get(id));
+    this.cableManager.setTheme(theme);
+    this.cableDrag = new CableDrag(this.cableManager, {
+      diagonal: this.diagonal,
+      findNeighbor: (origin, stepX, stepY) => this.findNeighbor(origin, stepX, stepY),
+      onDragStart: () => this.clearSelection(),
+      // Released without moving: select, or connect to the selected house
+      onClick: house => {
+        if (!this.selectedHouse) {
+          this.selectedHouse = house;
+          house.setSelection(true);
+        } else {
+          if (this.selectedHouse !== house) this.toggleCable(this.selectedHouse, house);
+          this.clearSelection();
+        }
+      },
+      onDrop: (origin, target) => this.toggleCable(origin, target),
+    });
+
+    this.houses = [];
+    this.houseById = new Map();
+    this.nextId = 0;
+    board.nodes.forEach(n => this.addHouse(n.x, n.y));
+
+    // Imported IDs are replaced, so edges are matched by position
+    const byCell = (node: NodeData | undefined) => node && this.houseAt(node.x, node.y);
+    board.edges.forEach(e => {
+      const houseA = byCell(board.nodes.find(n => n.id === e.nodeA));
+      const houseB = byCell(board.nodes.find(n => n.id === e.nodeB));
+      if (houseA && houseB) this.board.setCount(houseA.dataModel.id, houseB.dataModel.id, e.count);
+    });
+
+    this.refresh();
+  }
+
+  /**
+   * Opens an existing puzzle for editing. Counts come from cables here, so a board without
+   * a complete set of cables gets the solver's first solution drawn in.
+   */
+  private importBoard(board: BoardSnapshot) {
+    const isComplete = board.nodes.every(n =>
+      board.edges.filter(e => e.nodeA === n.id || e.nodeB === n.id).reduce((sum, e) => sum + e.count, 0) === n.requiredConnections
+    );
+    const edges = isComplete ? board.edges : HashiSolver.solve(board.nodes, {
+      maxSolutions: 1,
+      maxBridges: board.maxBridges,
+      diagonal: board.diagonal,
+      obstacles: board.obstacles,
+      capacity: board.capacity,
+    })[0] ?? [];
+    this.loadBoard({ ...board, edges }, this.theme);
+  }
+
+  // Keeps whatever still fits on the new grid
+  private resize(width: number, height: number) {
+    const board = this.getBoard();
+    const nodes = board.nodes.filter(n => n.x < width && n.y < height);
+    const obstacles = board.obstacles?.filter(p => p.x < width && p.y < height);
+    const kept = new Set(nodes.map(n => n.id));
+    const edges = board.edges.filter(e => kept.has(e.nodeA) && kept.has(e.nodeB));
+    this.loadBoard({ ...board, width, height, nodes, obstacles, edges }, this.theme);
+  }
+
+  // Lowering the rule trims pairs that now carry too many cables
+  private setMaxBridges(maxBridges: number) {
+    const board = this.getBoard();
+    const edges = board.edges.map(e => ({ ...e, count: Math.min(e.count, maxBridges) }));
+    this.loadBoard({ ...board, maxBridges, edges }, this.theme);
+  }
+
+  // Switching diagonals off drops the diagonal cables
+  private setDiagonal(diagonal: boolean) {
+    const board = this.getBoard();
+    const byId = new Map(board.nodes.map(n => [n.id, n]));
+    const edges = diagonal ? board.edges : board.edges.filter(e => GridGeometry.isAligned(byId.get(e.nodeA)!, byId.get(e.nodeB)!));
+    this.loadBoard({ ...board, diagonal, edges }, this.theme);
+  }
+
+  private drawGrid() {
+    const layout = GridGeometry.fitToScreen(this.scale.width, this.scale.height, this.gridWidth, this.gridHeight);
+    this.cellSize = layout.cellSize;
+    this.gridOffsetX = layout.offsetX;
+    this.gridOffsetY = layout.offsetY;
+
+    const bg = this.add.graphics();
+    bg.fillStyle(BACKGROUND_COLORS[this.theme]);
+    bg.fillRect(0, 0, this.scale.width, this.scale.height);
+
+    // A dot on every grid point a house could go
+    bg.fillStyle(this.theme === Theme.CITY ? 0x475569 : 0xffffff, 0.5);
+    for (let y = 0; y < this.gridHeight; y++) {
+      for (let x = 0; x < this.gridWidth; x++) {
+        bg.fillCircle(this.gridOffsetX + x * this.cellSize, this.gridOffsetY + y * this.cellSize, 4);
+      }
+    }
+  }
+
+  private addHouse(x: number, y: number): House {
+    const data = this.board.addNode({ id: `n_${this.nextId++}`, x, y, requiredConnections: 0, currentConnections: 0 });
+    const house = new House(
+      this,
+      this.gridOffsetX + x * this.cellSize,
+      this.gridOffsetY + y * this.cellSize,
+      { ...data },
+      Math.min(1, this.cellSize / 88),
+      this.theme
+    );
+    house.name = data.id;
+    this.add.existing(house);
+    this.houses.push(house);
+    this.houseById.set(data.id, house);
+    return house;
+  }
+
+  private addObstacle(x: number, y: number): Obstacle {
+    const obstacle = new Obstacle(
+      this,
+      this.gridOffsetX + x * this.cellSize,
+      this.gridOffsetY + y * this.cellSize,
+      { x, y },
+      Math.min(1, this.cellSize / 88),
+      this.theme
+    );
+    this.add.existing(obstacle);
+    this.obstacles.push(obstacle);
+    return obstacle;
+  }
+
+  private houseAt(x: number, y: number): House | undefined {
+    return this.houses.find(h => h.dataModel.x === x && h.dataModel.y === y);
+  }
+
+  private obstacleAt(x: number, y: number): Obstacle | undefined {
+    return this.obstacles.find(o => o.point.x === x && o.point.y === y);
+  }
+
+  // --- Input ---
+
+  private handlePointerDown(pointer: Phaser.Input.Pointer) {
+    if (this.inputPaused) return;
+
+    const x = Math.round((pointer.x - this.gridOffsetX) / this.cellSize);
+    const y = Math.round((pointer.y - this.gridOffsetY) / this.cellSize);
+    if (x < 0 || y < 0 || x >= this.gridWidth || y >= this.gridHeight) return;
+
+    // Ignore presses between grid points
+    const dx = pointer.x - (this.gridOffsetX + x * this.cellSize);
+    const dy = pointer.y - (this.gridOffsetY + y * this.cellSize);
+    if (Math.hypot(dx, dy) > this.cellSize * 0.45) return;
+
+    const house = this.houseAt(x, y);
+    const obstacle = this.obstacleAt(x, y);
+    if (this.tool === 'HOUSES') {
+      if (house) this.removeHouse(house);
+      else if (!obstacle) this.placeHouse(x, y);
+    } else if (this.tool === 'OBSTACLES') {
+      if (obstacle) this.removeObstacle(obstacle);
+      else if (!house) this.placeObstacle(x, y);
+    } else if (house) {
+      this.cableDrag.start(house);
+    }
+  }
+
+  private placeHouse(x: number, y: number) {
+    this.removeCablesOver(x, y);
+    this.addHouse(x, y);
+    this.refresh();
+  }
+
+  private placeObstacle(x: number, y: number) {
+    this.removeCablesOver(x, y);
+    this.addObstacle(x, y);
+    this.board.setObstacles(this.getObstaclePoints());
+    this.refresh();
+  }
+
+  private removeObstacle(obstacle: Obstacle) {
+    this.obstacles = this.obstacles.filter(o => o !== obstacle);
+    obstacle.destroy();
+    this.board.setObstacles(this.getObstaclePoints());
+    this.refresh();
+  }
+
+  // Cables running over this grid point would now pass through whatever is placed there
+  private removeCablesOver(x: number, y: number) {
+    this.board.getEdges().forEach(e => {
+      if (GridGeometry.isObstacleBetween(this.board.getNode(e.nodeA)!, this.board.getNode(e.nodeB)!, [{ x, y }])) {
+        this.board.setCount(e.nodeA, e.nodeB, 0);
+      }
+    });
+  }
+
+  private removeHouse(house: House) {
+    this.board.removeNode(house.dataModel.id);
+    this.houses = this.houses.filter(h => h !== house);
+    this.houseById.delete(house.dataModel.id);
+    house.destroy();
+    this.refresh();
+  }
+
+  private clearSelection() {
+    if (this.selectedHouse) this.selectedHouse.setSelection(false);
+    this.selectedHouse = null;
+  }
+
+  // Nearest house in a grid direction, if a cable could be laid to it
+  private findNeighbor(origin: House, stepX: number, stepY: number): House | null {
+    const node = GridGeometry.nearestInDirection(origin.dataModel, this.board.getNodes(), stepX, stepY);
+    return node && this.board.canConnect(origin.dataModel.id, node.id) ? this.houseById.get(node.id) ?? null : null;
+  }
+
+  // Cycles 0 -> 1 -> ... -> maxBridges -> 0 cables, like a move in play
+  // Drawing the design isn't a move in play, so nothing goes into the board's history
+  private toggleCable(houseA: House, houseB: House) {
+    const idA = houseA.dataModel.id;
+    const idB = houseB.dataModel.id;
+    if (!this.board.canConnect(idA, idB)) return;
+    this.board.setCount(idA, idB, this.board.nextCount(idA, idB));
+    this.refresh();
+  }
+
+  // Houses show the board's counts; only the houses a change touches are redrawn
+  private onBoardChange(change: BoardChange) {
+    if (change.type !== 'HOUSE') return;
+    const house = this.houseById.get(change.node.id);
+    if (!house) return;
+    if (house.dataModel.requiredConnections !== change.node.requiredConnections) {
+      house.setRequiredConnections(change.node.requiredConnections);
+    } else {
+      house.updateConnectionCount(change.node.currentConnections);
+    }
+  }
+
+  // --- Validation ---
+
+  // Derives every required count from the cables and reports the design's state to React;
+  // the solution count follows once edits pause
+  private refresh() {
+    const edges = this.board.getEdges();
+    this.board.getNodes().forEach(n => this.board.setRequired(n.id, n.currentConnections));
+
+    // The plant follows the counts, so it can move with any cable
+    const plant = this.capacity > 0 ? PowerFlow.findPlant(this.board.getNodes()) : null;
+    this.houses.forEach(h => h.setPlant(h.dataModel.id === plant?.id));
+
+    const board = this.getBoard();
+    const issues = this.findIssues(board.nodes, edges);
+    this.pendingCheck?.remove();
+    this.pendingCheck = issues.length === 0 ? this.time.delayedCall(CHECK_DELAY, () => this.check(board)) : null;
+    this.emitStatus({ board, issues, solutionCount: issues.length === 0 ? null : 0, tooComplex: false, score: null });
+  }
+
+  private check(board: BoardSnapshot) {
+    this.pendingCheck = null;
+    const { nodes, edges, maxBridges } = board;
+    const diagonal = !!board.diagonal;
+    const obstacles = board.obstacles ?? [];
+    let solutionCount: number;
+    try {
+      solutionCount = HashiSolver.solve(nodes, {
+        maxSolutions: 2,
+        maxBridges,
+        diagonal,
+        obstacles,
+        capacity: board.capacity,
+        maxSteps: CHECK_STEP_BUDGET,
+      }).length;
+    } catch (e) {
+      if (!(e instanceof SolverBudgetError)) throw e;
+      this.emitStatus({ board, issues: [], solutionCount: null, tooComplex: true, score: null });
+      return;
+    }
+    this.emitStatus({
+      board,
+      issues: [],
+      solutionCount,
+      tooComplex: false,
+      score: solutionCount === 1 ? PuzzleGrader.grade(nodes, edges, maxBridges, diagonal, obstacles).score : null,
+    });
+  }
+
+  private emitStatus(status: EditorStatus) {
+    if (this.onEvent) {
+      this.onEvent({ type: 'EDITOR_UPDATE', payload: status });
+    }
+  }
+
+  private findIssues(nodes: NodeData[], edges: EdgeData[]): string[] {
+    const nouns = THEME_NOUNS[this.theme];
+    if (nodes.length < 2) return [`Place at least two ${nouns.house}s.`];
+
+    const issues: string[] = [];
+    const bare = nodes.filter(n => n.requiredConnections === 0).length;
+    if (bare > 0) {
+      issues.push(bare === 1 ? `1 ${nouns.house} has no ${nouns.cable}s.` : `${bare} ${nouns.house}s have no ${nouns.cable}s.`);
+    }
+
+    // One network: every house reachable from the first
+    const visited = new Set([nodes[0].id]);
+    const queue = [nodes[0].id];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      edges.forEach(e => {
+        const other = e.nodeA === current ? e.nodeB : e.nodeB === current ? e.nodeA : null;
+        if (other && !visited.has(other)) {
+          visited.add(other);
+          queue.push(other);
+        }
+      });
+    }
+    if (visited.size < nodes.length) {
+      issues.push(`The ${nouns.cable}s don't join every ${nouns.house} into one network.`);
+    } else if (this.capacity > 0 && !PowerFlow.suppliesAll(nodes, edges, this.capacity)) {
+      issues.push(`The ${nouns.plant} can't supply every ${nouns.house} with ${this.capacity} per ${nouns.cable}.`);
+    }
+
+    return issues;
+  }
+}
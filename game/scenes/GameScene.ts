@@ -1,14 +1,20 @@
 import Phaser from 'phaser';
+import { BoardChange, BoardState } from '../model/BoardState';
 import { House } from '../objects/House';
+import { Obstacle } from '../objects/Obstacle';
+import { CableDrag } from '../systems/CableDrag';
 import { CableManager } from '../systems/CableManager';
+import { GridGeometry } from '../systems/GridGeometry';
 import { PuzzleGenerator } from '../systems/PuzzleGenerator';
-import { Difficulty, DIFFICULTY_SETTINGS, Theme } from '../../types';
+import { HashiSolver } from '../systems/HashiSolver';
+import { PuzzleGrader } from '../systems/PuzzleGrader';
+import { PowerFlow } from '../systems/PowerFlow';
+import { PuzzleFile, PuzzleFormat, PuzzleFormatType } from '../systems/PuzzleFormat';
+import { SavedGame, SaveGameStore, SaveSlot } from '../storage/SaveGameStore';
+import { AnnotationMark, CustomDifficulty, DEFAULT_MAX_BRIDGES, Difficulty, EdgeData, GridPoint, MoveAction, NodeData, Theme, THEME_NOUNS } from '../../types';
 
-interface MoveAction {
-  nodeAId: string;
-  nodeBId: string;
-  previousCount: number;
-}
+// Imported boards may not be unique; collect enough solutions to judge the player's cables fairly
+const IMPORT_SOLUTION_LIMIT = 10;
 
 export class GameScene extends Phaser.Scene {
   // Explicitly declare inherited properties to resolve TypeScript errors
@@ -19,16 +25,41 @@ export class GameScene extends Phaser.Scene {
   declare children: Phaser.GameObjects.DisplayList;
   declare time: Phaser.Time.Clock;
   declare tweens: Phaser.Tweens.TweenManager;
+  declare input: Phaser.Input.InputPlugin;
 
+  private board!: BoardState; // The rules; everything on screen is drawn from it
   private houses: House[] = [];
+  private houseById: Map<string, House> = new Map();
   private cableManager!: CableManager;
   private selectedHouse: House | null = null;
+  
+  // Keyboard cursor
+  private focusedHouse: House | null = null;
+  private inputPaused: boolean = true; // Set by React while a modal covers the board
+  
+  // Drag-to-connect
+  private cableDrag!: CableDrag;
   private isSolved: boolean = false;
   private currentDifficulty: Difficulty = Difficulty.EASY;
   private currentTheme: Theme = Theme.POWER_GRID;
+  private currentSeed: string = ''; // Empty for pasted puzzles, a level key for campaign boards
+  private currentCustom: CustomDifficulty | null = null; // Generator settings of a custom board
+  private saveSlot: SaveSlot | null = 'GAME'; // Where this board autosaves; none while play-testing an editor board
+  private solutions: EdgeData[][] = [];
+  
+  // Hints & Error Checking
+  private hintedHouses: House[] = [];
+  private autoCheck: boolean = false; // Practice mode: flag wrong cables after every move
+  private annotationMode: boolean = false; // Moves place pencil marks instead of cables
+  private plantId: string | null = null; // The plant on this board, under the power-flow rule
   
-  // Undo History
-  private history: MoveAction[] = [];
+  // Per-puzzle stats reported on victory
+  private undoCount: number = 0;
+  private hintsUsed: number = 0;
+  
+  // Session clock, mirrored from React so it can be saved with the board
+  private sessionTimeLeft: number = 0;
+  private puzzleSeconds: number = 0;
   
   // Grid config
   private gridOffsetX = 0;
@@ -43,13 +74,35 @@ export class GameScene extends Phaser.Scene {
   }
 
   create() {
-    // Initial dummy background, will be redrawn on START_GAME
+    // Initial dummy board and background, will be redrawn on START_GAME
+    this.board = new BoardState({ width: 0, height: 0, maxBridges: DEFAULT_MAX_BRIDGES, nodes: [] });
     this.createBackground();
-    this.cableManager = new CableManager(this);
+    this.cableManager = new CableManager(this, this.board, id => this.houseById.get(id));
+    
+    // Drag tracking runs at scene level so it follows the pointer off the house
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => this.cableDrag?.move(pointer));
+    this.input.on('pointerup', () => this.cableDrag?.end());
+    this.input.on('pointerupoutside', () => this.cableDrag?.end());
+    this.input.keyboard?.on('keydown', (event: KeyboardEvent) => this.handleKey(event));
     
     // Listen for events from React
-    this.events.on('START_GAME', (data: { difficulty: Difficulty, theme: Theme }) => {
-      this.startGame(data.difficulty, data.theme);
+    this.events.on('START_GAME', (data: { difficulty: Difficulty, theme: Theme, seed: string, puzzle?: PuzzleFile, custom?: CustomDifficulty, saveSlot?: SaveSlot | null }) => {
+      this.startGame(data.difficulty, data.theme, data.seed, data.puzzle, data.custom, data.saveSlot === undefined ? 'GAME' : data.saveSlot);
+    });
+
+    this.events.on('RESUME_GAME', (data: { saved: SavedGame, saveSlot: SaveSlot }) => {
+      this.resumeGame(data.saved, data.saveSlot);
+    });
+
+    // A new session's clock, sent before its first board so the first autosave has the right time
+    this.events.on('SET_SESSION_TIME', (timeLeft: number) => {
+      this.sessionTimeLeft = timeLeft;
+    });
+
+    this.events.on('TIMER_TICK', (data: { timeLeft: number, puzzleSeconds: number }) => {
+      this.sessionTimeLeft = data.timeLeft;
+      this.puzzleSeconds = data.puzzleSeconds;
+      this.saveProgress();
     });
 
     this.events.on('RESET_PUZZLE', () => {
@@ -57,12 +110,52 @@ export class GameScene extends Phaser.Scene {
     });
     
     this.events.on('REPORT_UNSOLVABLE', () => {
-       console.log("Player reported unsolvable.");
+       const solutionCount = HashiSolver.solve(this.board.getNodes(), {
+         maxSolutions: 2,
+         maxBridges: this.board.maxBridges,
+         diagonal: this.board.diagonal,
+         obstacles: this.board.getObstacles(),
+         capacity: this.board.capacity,
+       }).length;
+       // Imported boards have no seed, so log the board itself
+       const puzzleId = this.currentSeed
+         ? PuzzleGenerator.getPuzzleId(this.currentDifficulty, this.currentSeed, this.currentCustom ?? undefined)
+         : PuzzleFormat.toText({ ...this.board.getRules(), nodes: this.board.getNodes(), edges: [] });
+       console.log("Player reported unsolvable.", { puzzleId, solutionCount });
     });
 
     this.events.on('UNDO', () => {
       this.undo();
     });
+
+    this.events.on('REDO', () => {
+      this.redo();
+    });
+
+    this.events.on('REQUEST_HINT', () => {
+      this.showHint();
+    });
+
+    this.events.on('CHECK_BOARD', () => {
+      this.checkBoard();
+    });
+
+    this.events.on('SET_INPUT_PAUSED', (paused: boolean) => {
+      this.inputPaused = paused;
+    });
+
+    this.events.on('SET_ANNOTATION_MODE', (enabled: boolean) => {
+      this.annotationMode = enabled;
+    });
+
+    this.events.on('SET_AUTO_CHECK', (enabled: boolean) => {
+      this.autoCheck = enabled;
+      this.refreshErrorMarks();
+    });
+
+    this.events.on('EXPORT_PUZZLE', (data: { format: PuzzleFormatType, includeProgress: boolean }) => {
+      this.exportPuzzle(data.format, data.includeProgress);
+    });
   }
 
   private createBackground() {
@@ -144,72 +237,198 @@ export class GameScene extends Phaser.Scene {
        bg.postFX.clear(); 
        bg.postFX.addBlur(1, 4, 4, 1);
     }
+
+    // Obstacles sit on grid points, unblurred, underneath the cables
+    this.board.getObstacles().forEach(point => {
+      const x = this.gridOffsetX + point.x * this.cellSize;
+      const y = this.gridOffsetY + point.y * this.cellSize;
+      this.add.existing(new Obstacle(this, x, y, point, Math.min(1, this.cellSize / 88), this.currentTheme));
+    });
+  }
+
+  /**
+   * Starts a generated puzzle (from `custom` settings when given), or a fixed board (pasted or
+   * from the campaign) when `imported` is given. Fixed boards are solved here and may arrive
+   * with cables already placed; `seed` then only labels them.
+   */
+  public startGame(difficulty: Difficulty, theme: Theme, seed: string, imported?: PuzzleFile, custom?: CustomDifficulty, saveSlot: SaveSlot | null = 'GAME') {
+    this.saveSlot = saveSlot;
+    if (!imported) {
+      // Generate
+      const { puzzle, outcome } = PuzzleGenerator.generateWithReport(difficulty, seed, custom);
+      if (outcome === 'FALLBACK') {
+        // Not the board the ID names, so it plays untagged, like a pasted board
+        this.setupBoard(difficulty, theme, '', puzzle, [puzzle.solutionEdges]);
+        if (this.onEvent) {
+          this.onEvent({ type: 'GENERATION_FALLBACK', payload: { board: { ...this.board.getRules(), nodes: this.board.getNodes(), edges: [] } } });
+        }
+      } else {
+        this.setupBoard(difficulty, theme, seed, puzzle, [puzzle.solutionEdges], custom);
+      }
+      this.saveProgress();
+      return;
+    }
+
+    const nodes = imported.nodes.map(n => ({ ...n, currentConnections: 0 }));
+    const solutions = HashiSolver.solve(nodes, {
+      maxSolutions: IMPORT_SOLUTION_LIMIT,
+      maxBridges: imported.maxBridges,
+      diagonal: imported.diagonal,
+      obstacles: imported.obstacles,
+      capacity: imported.capacity,
+    });
+    if (solutions.length === 0) {
+      if (this.onEvent) {
+        this.onEvent({ type: 'PUZZLE_IMPOSSIBLE' });
+      }
+      return;
+    }
+
+    this.setupBoard(difficulty, theme, seed, { ...imported, nodes }, solutions);
+    this.placeEdges(imported.edges);
+    this.refreshErrorMarks();
+    this.checkWinCondition();
+    this.saveProgress();
+  }
+
+  /**
+   * Rebuilds a saved board, including its cables and undo history.
+   */
+  public resumeGame(saved: SavedGame, saveSlot: SaveSlot = 'GAME') {
+    this.saveSlot = saveSlot;
+    const nodes = saved.nodes.map(n => ({ ...n, currentConnections: 0 }));
+    const board = { width: saved.width, height: saved.height, maxBridges: saved.maxBridges, diagonal: saved.diagonal, obstacles: saved.obstacles, capacity: saved.capacity, nodes };
+    this.setupBoard(saved.difficulty, saved.theme, saved.seed, board, saved.solutions, saved.custom);
+
+    this.sessionTimeLeft = saved.timeLeft;
+    this.puzzleSeconds = saved.puzzleSeconds;
+    this.undoCount = saved.undoCount;
+    this.hintsUsed = saved.hintsUsed;
+
+    this.placeEdges(saved.edges);
+    saved.annotations.forEach(note => {
+      if (this.board.getNode(note.nodeA) && this.board.getNode(note.nodeB)) this.board.setMark(note.nodeA, note.nodeB, note.mark);
+    });
+    this.board.restoreHistory(saved.history, saved.redoStack);
+
+    this.refreshErrorMarks();
+    this.checkWinCondition();
   }
 
-  public startGame(difficulty: Difficulty, theme: Theme) {
+  private setupBoard(
+    difficulty: Difficulty,
+    theme: Theme,
+    seed: string,
+    board: { width: number, height: number, maxBridges: number, diagonal?: boolean, obstacles?: GridPoint[], capacity?: number, nodes: NodeData[] },
+    solutions: EdgeData[][],
+    custom?: CustomDifficulty
+  ) {
     this.currentDifficulty = difficulty;
     this.currentTheme = theme;
+    this.currentSeed = seed;
+    this.currentCustom = custom ?? null;
+    this.board = new BoardState(board);
+    this.board.subscribe(change => this.onBoardChange(change));
     this.isSolved = false;
     this.selectedHouse = null;
-    this.history = [];
+    this.focusedHouse = null;
+    this.hintedHouses = [];
+    this.undoCount = 0;
+    this.hintsUsed = 0;
+    this.puzzleSeconds = 0;
     this.notifyHistoryChange();
+    this.solutions = solutions;
     
+    // Calculate Layout (first, since obstacles are drawn with the background)
+    const settings = PuzzleGenerator.getSettings(difficulty, custom);
+    const layout = GridGeometry.fitToScreen(this.scale.width, this.scale.height, board.width, board.height);
+    this.cellSize = layout.cellSize;
+    this.gridOffsetX = layout.offsetX;
+    this.gridOffsetY = layout.offsetY;
+    // Imported and custom boards can be denser than the difficulty's own grid
+    const houseScale = Math.min(settings.scale, this.cellSize / 88);
+
     // Redraw background based on new theme
     this.children.removeAll(); // Clear everything
     this.createBackground();
     
     // Re-init manager with theme
-    this.cableManager = new CableManager(this);
-    this.cableManager.setTheme(theme);
-
-    // Generate
-    const puzzle = PuzzleGenerator.generate(difficulty);
-    
-    // Calculate Layout
-    const settings = DIFFICULTY_SETTINGS[difficulty];
-    const gridSize = settings.gridSize;
-    // Fit grid to screen
-    const availWidth = this.scale.width * 0.9;
-    const availHeight = this.scale.height * 0.8; // leave room for HUD
-    this.cellSize = Math.min(availWidth / gridSize, availHeight / gridSize);
-    
-    this.gridOffsetX = (this.scale.width - (gridSize - 1) * this.cellSize) / 2;
-    this.gridOffsetY = (this.scale.height - (gridSize - 1) * this.cellSize) / 2 + 30; // Push down slightly
+    this.cableManager = new CableManager(this, this.board, id => this.houseById.get(id));
+    this.cableDrag = new CableDrag(this.cableManager, {
+      diagonal: this.board.diagonal,
+      findNeighbor: (origin, stepX, stepY) => this.findNeighbor(origin, stepX, stepY),
+      // A drag replaces any half-finished click selection
+      onDragStart: () => {
+        if (this.selectedHouse) {
+          this.selectedHouse.setSelection(false);
+          this.selectedHouse = null;
+        }
+      },
+      onClick: house => this.handleHouseClick(house),
+      onDrop: (origin, target) => {
+        if (!this.isSolved) this.connectHouses(origin, target);
+      },
+    });
 
-    // Create Houses/Floes
+    // Create Houses/Floes (each drawing its own copy of the board's node)
     this.houses = [];
-    puzzle.nodes.forEach(nodeData => {
+    this.houseById = new Map();
+    this.board.getNodes().forEach(nodeData => {
       const x = this.gridOffsetX + nodeData.x * this.cellSize;
       const y = this.gridOffsetY + nodeData.y * this.cellSize;
       
-      const house = new House(this, x, y, nodeData, settings.scale, this.currentTheme);
+      const house = new House(this, x, y, { ...nodeData }, houseScale, this.currentTheme);
       house.name = nodeData.id; 
       
-      house.on('pointerdown', () => this.handleHouseClick(house));
+      house.on('pointerdown', () => this.startDrag(house));
       
       this.add.existing(house);
       this.houses.push(house);
+      this.houseById.set(nodeData.id, house);
     });
+    // The board may start with cables (a resumed game), which need the houses in place
+    this.cableManager.setTheme(theme);
+
+    const plant = this.board.capacity > 0 ? PowerFlow.findPlant(board.nodes) : null;
+    this.plantId = plant?.id ?? null;
+    if (this.plantId) this.houseById.get(this.plantId)?.setPlant(true);
+    this.updatePower();
+
+    this.publishBoard();
+    const nouns = THEME_NOUNS[theme];
+    const rule = board.maxBridges === DEFAULT_MAX_BRIDGES ? '' : ` Up to ${board.maxBridges} ${nouns.cable}${board.maxBridges === 1 ? '' : 's'} per pair.`;
+    const variant = this.board.diagonal ? ` ${this.capitalize(nouns.cable)}s may run diagonally; Home, End, Page Up and Page Down move diagonally.` : '';
+    const source = plant
+      ? ` Power flows from the ${nouns.plant} at row ${plant.y + 1}, column ${plant.x + 1}; each ${nouns.cable} carries power for at most ${this.board.capacity} ${nouns.house}s.`
+      : '';
+    const obstacleCount = this.board.getObstacles().length;
+    const blocked = obstacleCount === 0 ? ''
+      : ` ${obstacleCount} ${nouns.obstacle}${obstacleCount === 1 ? ' blocks' : 's block'} ${nouns.cable}s.`;
+    this.announce(`New puzzle: ${board.nodes.length} ${nouns.house}s on a ${board.width} by ${board.height} grid.${rule}${variant}${blocked}${source} Use the arrow keys to move between ${nouns.house}s.`);
   }
 
   private resetCurrentPuzzle() {
     if (this.isSolved) return; 
 
-    // 1. Reset Cables
-    this.cableManager.reset();
+    // 1. Reset Cables, marks and history
+    this.clearHint();
+    this.board.reset();
 
     // 2. Reset Houses visual state
     this.houses.forEach(h => {
-      h.updateConnectionCount(0);
       h.setPowered(false);
       h.setSelection(false);
     });
+    this.updatePower();
 
     // 3. Reset State
     this.selectedHouse = null;
-    this.history = [];
-    this.notifyHistoryChange();
+    this.refreshErrorMarks();
+    this.saveProgress();
     this.isSolved = false;
+
+    this.publishBoard();
+    this.announce(`All ${THEME_NOUNS[this.currentTheme].cable}s removed.`);
   }
 
   private handleHouseClick(house: House) {
@@ -219,25 +438,15 @@ export class GameScene extends Phaser.Scene {
       // Select
       this.selectedHouse = house;
       house.setSelection(true);
+      this.announce(`Selected ${this.describeHouse(house)}.`);
     } else if (this.selectedHouse === house) {
       // Deselect
       this.selectedHouse.setSelection(false);
       this.selectedHouse = null;
+      this.announce("Selection cleared.");
     } else {
       // Attempt Connection
-      if (this.cableManager.canConnect(this.selectedHouse, house, this.houses)) {
-        // Record History before change
-        const prevCount = this.cableManager.hasConnection(this.selectedHouse.dataModel.id, house.dataModel.id);
-        this.history.push({
-          nodeAId: this.selectedHouse.dataModel.id,
-          nodeBId: house.dataModel.id,
-          previousCount: prevCount
-        });
-        this.notifyHistoryChange();
-
-        this.cableManager.toggleConnection(this.selectedHouse, house);
-        this.checkWinCondition();
-      }
+      this.connectHouses(this.selectedHouse, house);
       
       // Always Deselect after action
       this.selectedHouse.setSelection(false);
@@ -245,88 +454,369 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  // Cycles the cable count between two houses (0 -> 1 -> ... -> maxBridges -> 0) if the rules allow a cable there.
+  // In annotation mode the pencil mark cycles instead.
+  private connectHouses(houseA: House, houseB: House) {
+    if (this.annotationMode) {
+      this.cycleAnnotation(houseA, houseB);
+      return;
+    }
+    if (!this.board.toggle(houseA.dataModel.id, houseB.dataModel.id)) return;
+    this.afterCableMove(houseA, houseB);
+  }
+
+  // Adds (delta 1) or removes (delta -1) one cable between two houses
+  private adjustCable(houseA: House, houseB: House, delta: number) {
+    if (!this.board.adjust(houseA.dataModel.id, houseB.dataModel.id, delta)) return;
+    this.afterCableMove(houseA, houseB);
+  }
+
+  // Everything a changed cable count sets off beyond the board itself
+  private afterCableMove(houseA: House, houseB: House) {
+    this.clearHint();
+    this.refreshErrorMarks();
+    this.checkWinCondition();
+    this.saveProgress();
+    this.announceCable(houseA, houseB);
+  }
+
+  private cycleAnnotation(houseA: House, houseB: House) {
+    if (!this.board.cycleMark(houseA.dataModel.id, houseB.dataModel.id)) return;
+    this.saveProgress();
+    this.announceAnnotation(houseA, houseB);
+  }
+
+  private setAnnotation(houseA: House, houseB: House, mark: AnnotationMark | null) {
+    if (!this.board.mark(houseA.dataModel.id, houseB.dataModel.id, mark)) return;
+    this.saveProgress();
+    this.announceAnnotation(houseA, houseB);
+  }
+
+  /**
+   * Keyboard play:
+   * Arrows move the cursor (Home / Page Up / End / Page Down diagonally on diagonal boards),
+   * Space/Enter select (same as a click),
+   * Shift+Arrow adds a cable toward the neighbor, Alt+Arrow removes one.
+   * In annotation mode Shift+Arrow cycles the pencil mark and Alt+Arrow erases it.
+   */
+  private handleKey(event: KeyboardEvent) {
+    if (this.inputPaused || this.isSolved || this.houses.length === 0) return;
+    if (event.ctrlKey || event.metaKey) return; // Undo / Redo shortcuts belong to the HUD
+    // Keys typed into the React UI (inputs, buttons, selects) stay with that control
+    const target = event.target as HTMLElement | null;
+    if (target?.closest?.('input, textarea, select, button, a[href], [contenteditable="true"]')) return;
+
+    const directions: Record<string, [number, number]> = {
+      ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1],
+    };
+    // Diagonal boards add the corner keys of a numeric keypad
+    const diagonals: Record<string, [number, number]> = {
+      Home: [-1, -1], PageUp: [1, -1], End: [-1, 1], PageDown: [1, 1],
+    };
+    const direction = directions[event.key] ?? (this.board.diagonal ? diagonals[event.key] : undefined);
+    const isSelectKey = event.key === ' ' || event.key === 'Enter';
+    if (!direction && !isSelectKey) return;
+    event.preventDefault();
+
+    // The first key press only reveals the cursor
+    if (!this.focusedHouse) {
+      this.setFocusedHouse(this.houses.reduce((best, h) =>
+        h.dataModel.y < best.dataModel.y || (h.dataModel.y === best.dataModel.y && h.dataModel.x < best.dataModel.x) ? h : best
+      ));
+      return;
+    }
+
+    const focused = this.focusedHouse;
+    if (isSelectKey) {
+      this.handleHouseClick(focused);
+      return;
+    }
+
+    const [stepX, stepY] = direction;
+    if (event.shiftKey || event.altKey) {
+      const neighbor = this.findNeighbor(focused, stepX, stepY);
+      if (!neighbor) return;
+      if (this.annotationMode) {
+        if (event.shiftKey) this.cycleAnnotation(focused, neighbor);
+        else this.setAnnotation(focused, neighbor, null);
+      } else {
+        this.adjustCable(focused, neighbor, event.shiftKey ? 1 : -1);
+      }
+      return;
+    }
+
+    const next = this.findCursorTarget(focused, stepX, stepY);
+    if (next) this.setFocusedHouse(next);
+  }
+
+  private setFocusedHouse(house: House) {
+    if (this.focusedHouse) this.focusedHouse.setFocus(false);
+    this.focusedHouse = house;
+    house.setFocus(true);
+    this.announce(this.capitalize(this.describeHouse(house)) + '.');
+  }
+
+  // Next house in a direction: the nearest one in line if any, otherwise the closest one on that side
+  private findCursorTarget(origin: House, stepX: number, stepY: number): House | null {
+    let best: House | null = null;
+    let bestInLine = false;
+    let bestScore = Infinity;
+
+    for (const house of this.houses) {
+      const dx = house.dataModel.x - origin.dataModel.x;
+      const dy = house.dataModel.y - origin.dataModel.y;
+      const along = dx * stepX + dy * stepY;
+      const across = Math.abs(dx * stepY - dy * stepX);
+      if (along <= 0) continue;
+
+      // In-line houses always win; off to the side, drifting costs more than going further ahead
+      const inLine = across === 0;
+      const score = along + across * 3;
+      if ((inLine && !bestInLine) || (inLine === bestInLine && score < bestScore)) {
+        best = house;
+        bestInLine = inLine;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  private startDrag(house: House) {
+    if (this.isSolved) return;
+    this.cableDrag.start(house);
+  }
+
+  // Nearest house in a grid direction, if a cable (or pencil mark) could be laid to it
+  private findNeighbor(origin: House, stepX: number, stepY: number): House | null {
+    const node = GridGeometry.nearestInDirection(origin.dataModel, this.board.getNodes(), stepX, stepY);
+    if (!node) return null;
+    const reachable = this.annotationMode
+      ? this.board.canAnnotate(origin.dataModel.id, node.id)
+      : this.board.canConnect(origin.dataModel.id, node.id);
+    return reachable ? this.houseById.get(node.id) ?? null : null;
+  }
+
   private undo() {
-    if (this.history.length === 0 || this.isSolved) return;
+    if (this.isSolved) return;
 
-    const lastMove = this.history.pop();
-    this.notifyHistoryChange();
+    const move = this.board.undo();
+    if (!move) return;
+    this.undoCount++;
+    this.afterHistoryMove(move);
+  }
+
+  private redo() {
+    if (this.isSolved) return;
 
-    if (lastMove) {
-      const houseA = this.houses.find(h => h.dataModel.id === lastMove.nodeAId);
-      const houseB = this.houses.find(h => h.dataModel.id === lastMove.nodeBId);
+    const move = this.board.redo();
+    if (move) this.afterHistoryMove(move);
+  }
 
-      if (houseA && houseB) {
-        this.cableManager.setConnection(houseA, houseB, lastMove.previousCount);
+  // Undo and redo change the board like a move; cables then get the same follow-up
+  private afterHistoryMove(move: MoveAction) {
+    const houseA = this.houseById.get(move.nodeAId);
+    const houseB = this.houseById.get(move.nodeBId);
+    if (houseA && houseB) {
+      if (move.kind === 'ANNOTATION') {
+        this.announceAnnotation(houseA, houseB);
+      } else {
+        this.clearHint();
+        this.refreshErrorMarks();
         this.checkWinCondition();
+        this.announceCable(houseA, houseB);
       }
     }
+    this.saveProgress();
   }
 
-  private notifyHistoryChange() {
+  private showHint() {
+    if (this.isSolved) return;
+
+    this.clearHint();
+    // Steer towards a solution the player's cables still agree with
+    const edges = this.board.getEdges();
+    const target = this.solutions.find(s => HashiSolver.findContradictions(edges, [s]).length === 0) || this.solutions[0];
+    const hint = PuzzleGrader.findHint(this.board.getNodes(), edges, target, this.board.maxBridges, this.board.diagonal, this.board.getObstacles());
+    if (!hint) return;
+
+    const isMistake = hint.kind === 'MISTAKE';
+    this.hintedHouses = this.houses.filter(h => h.dataModel.id === hint.nodeA || h.dataModel.id === hint.nodeB);
+    this.hintedHouses.forEach(h => h.setHint(hint.kind));
+    this.cableManager.setHint({ nodeA: hint.nodeA, nodeB: hint.nodeB, isMistake });
+    this.hintsUsed++;
+    this.saveProgress();
+
     if (this.onEvent) {
-      this.onEvent({ type: 'HISTORY_UPDATE', payload: { canUndo: this.history.length > 0 } });
+      this.onEvent({ type: 'HINT', payload: { kind: hint.kind, reason: hint.reason } });
     }
   }
 
-  private checkWinCondition() {
-    // 1. Update Connection Counts for all nodes
-    const edges = this.cableManager.getAllEdges();
-    
-    // Reset counts
-    this.houses.forEach(h => h.updateConnectionCount(0));
+  private clearHint() {
+    if (this.hintedHouses.length === 0) return;
 
-    // Sum up
-    edges.forEach(e => {
-      const hA = this.houses.find(h => h.dataModel.id === e.nodeA);
-      const hB = this.houses.find(h => h.dataModel.id === e.nodeB);
-      if (hA) hA.updateConnectionCount(hA.dataModel.currentConnections + e.count);
-      if (hB) hB.updateConnectionCount(hB.dataModel.currentConnections + e.count);
-    });
+    this.hintedHouses.forEach(h => h.setHint(null));
+    this.hintedHouses = [];
+    this.cableManager.setHint(null);
 
-    // 2. Validate Counts
-    const allCountsCorrect = this.houses.every(h => h.dataModel.currentConnections === h.dataModel.requiredConnections);
-    
-    if (!allCountsCorrect) return;
+    if (this.onEvent) {
+      this.onEvent({ type: 'HINT', payload: null });
+    }
+  }
+
+  private findWrongCables() {
+    return HashiSolver.findContradictions(this.board.getEdges(), this.solutions);
+  }
+
+  private checkBoard() {
+    if (this.isSolved) return;
+
+    const wrong = this.findWrongCables();
+    this.cableManager.setErrors(wrong);
+
+    if (this.onEvent) {
+      this.onEvent({ type: 'CHECK_RESULT', payload: { wrongCount: wrong.length } });
+    }
+  }
+
+  // Manual check marks go stale as soon as the board changes; live checking recomputes them
+  private refreshErrorMarks() {
+    this.cableManager.setErrors(this.autoCheck ? this.findWrongCables() : []);
+  }
 
-    // 3. Validate Connectivity (BFS)
+  // Autosave after every change so a reload can pick up where the player left off
+  private saveProgress() {
+    if (!this.saveSlot || this.isSolved || this.houses.length === 0) return;
+
+    SaveGameStore.save({
+      version: 1,
+      difficulty: this.currentDifficulty,
+      theme: this.currentTheme,
+      seed: this.currentSeed,
+      custom: this.currentCustom ?? undefined,
+      ...this.board.getRules(),
+      nodes: this.board.getNodes(),
+      solutions: this.solutions,
+      edges: this.board.getEdges(),
+      annotations: this.board.getAnnotations(),
+      history: this.board.getHistory(),
+      redoStack: this.board.getRedoStack(),
+      undoCount: this.undoCount,
+      hintsUsed: this.hintsUsed,
+      timeLeft: this.sessionTimeLeft,
+      puzzleSeconds: this.puzzleSeconds,
+      savedAt: new Date().toISOString(),
+    }, this.saveSlot);
+  }
+
+  private exportPuzzle(format: PuzzleFormatType, includeProgress: boolean) {
     if (this.houses.length === 0) return;
-    
-    const startId = this.houses[0].dataModel.id;
-    const visited = new Set<string>();
-    const queue = [startId];
-    visited.add(startId);
 
-    // Build Adjacency List for BFS
-    const adj = new Map<string, string[]>();
+    const text = PuzzleFormat.export({
+      ...this.board.getRules(),
+      nodes: this.board.getNodes(),
+      edges: this.board.getEdges(),
+    }, format, includeProgress);
+
+    if (this.onEvent) {
+      this.onEvent({ type: 'PUZZLE_EXPORTED', payload: { text } });
+    }
+  }
+
+  private placeEdges(edges: EdgeData[]) {
     edges.forEach(e => {
-      if (!adj.has(e.nodeA)) adj.set(e.nodeA, []);
-      if (!adj.has(e.nodeB)) adj.set(e.nodeB, []);
-      adj.get(e.nodeA)?.push(e.nodeB);
-      adj.get(e.nodeB)?.push(e.nodeA);
+      if (this.board.getNode(e.nodeA) && this.board.getNode(e.nodeB)) this.board.setCount(e.nodeA, e.nodeB, e.count);
     });
+  }
 
-    while (queue.length > 0) {
-      const curr = queue.shift()!;
-      const neighbors = adj.get(curr) || [];
-      for (const n of neighbors) {
-        if (!visited.has(n)) {
-          visited.add(n);
-          queue.push(n);
+  // Houses and the HUD follow the board: only the houses a change touches are redrawn
+  private onBoardChange(change: BoardChange) {
+    if (change.type === 'HOUSE') {
+      this.houseById.get(change.node.id)?.updateConnectionCount(change.node.currentConnections);
+    } else if (change.type === 'HISTORY') {
+      this.notifyHistoryChange();
+    }
+  }
+
+  // --- Screen Reader Support ---
+
+  // Mirrors the board for the off-screen grid in React
+  private publishBoard() {
+    if (this.onEvent) {
+      this.onEvent({
+        type: 'BOARD_UPDATE',
+        payload: {
+          ...this.board.getRules(),
+          nodes: this.board.getNodes().map(n => ({ ...n })),
+          edges: this.board.getEdges(),
         }
-      }
+      });
+    }
+  }
+
+  private announce(message: string) {
+    if (this.onEvent) {
+      this.onEvent({ type: 'ANNOUNCE', payload: { message } });
     }
+  }
+
+  // Skipped once the puzzle is solved so the victory message isn't talked over
+  private announceCable(houseA: House, houseB: House) {
+    if (this.isSolved) return;
 
-    const allConnected = visited.size === this.houses.length;
+    const cable = THEME_NOUNS[this.currentTheme].cable;
+    const count = this.board.getCount(houseA.dataModel.id, houseB.dataModel.id);
+    const countText = count === 0 ? `No ${cable}s` : count === 1 ? `1 ${cable}` : `${count} ${cable}s`;
+    this.announce(`${countText} between ${this.describeHouse(houseA)} and ${this.describeHouse(houseB)}.`);
+  }
+
+  private announceAnnotation(houseA: House, houseB: House) {
+    const mark = this.board.getAnnotation(houseA.dataModel.id, houseB.dataModel.id);
+    const cable = THEME_NOUNS[this.currentTheme].cable;
+    const text = mark === 'AT_LEAST_ONE' ? `Pencil mark: at least one ${cable}`
+      : mark === 'NO_BRIDGE' ? `Pencil mark: no ${cable}` : 'Pencil mark erased';
+    this.announce(`${text} between ${this.describeHouse(houseA)} and ${this.describeHouse(houseB)}.`);
+  }
 
-    if (allConnected) {
+  private describeHouse(house: House): string {
+    const d = house.dataModel;
+    const noun = THEME_NOUNS[this.currentTheme].house;
+    return `${noun} at row ${d.y + 1}, column ${d.x + 1}, ${d.currentConnections} of ${d.requiredConnections}`;
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  private notifyHistoryChange() {
+    if (this.onEvent) {
+      this.onEvent({ type: 'HISTORY_UPDATE', payload: { canUndo: this.board.canUndo(), canRedo: this.board.canRedo() } });
+    }
+  }
+
+  private checkWinCondition() {
+    this.updatePower();
+    this.publishBoard();
+
+    if (this.board.isSolved()) {
       this.victory();
     }
   }
 
+  // Power flow: a BFS from the plant after every move lights the houses it reaches
+  private updatePower() {
+    if (!this.plantId || this.isSolved) return;
+
+    const powered = PowerFlow.getPowered(this.board.getNodes(), this.board.getEdges(), this.plantId);
+    this.houses.forEach(h => h.setPowered(powered.has(h.dataModel.id)));
+  }
+
   private victory() {
     this.isSolved = true;
+    if (this.saveSlot) SaveGameStore.clear(this.saveSlot);
     this.houses.forEach(h => h.setPowered(true));
     this.cableManager.setSolvedState(true);
+    this.announce(`Puzzle solved! All ${this.houses.length} ${THEME_NOUNS[this.currentTheme].house}s are connected.`);
     
     // Play sound effect
     this.playVictorySound();
@@ -339,13 +829,16 @@ export class GameScene extends Phaser.Scene {
     }
 
     if (this.onEvent) {
-      this.onEvent({ type: 'PUZZLE_SOLVED' });
+      this.onEvent({
+        type: 'PUZZLE_SOLVED',
+        payload: { seed: this.currentSeed, undoCount: this.undoCount, hintsUsed: this.hintsUsed }
+      });
     }
   }
 
   private startPenguinParade() {
       // Get all connected paths
-      const edges = this.cableManager.getAllEdges();
+      const edges = this.board.getEdges();
       
       edges.forEach((edge, index) => {
           // Delay start for chaos
@@ -377,8 +870,8 @@ export class GameScene extends Phaser.Scene {
   }
 
   private spawnTravelerPenguin(startId: string, endId: string, bridgeCount: number) {
-      const nodeA = this.houses.find(h => h.name === startId);
-      const nodeB = this.houses.find(h => h.name === endId);
+      const nodeA = this.houseById.get(startId);
+      const nodeB = this.houseById.get(endId);
       if (!nodeA || !nodeB) return;
 
       const traveler = this.add.container(nodeA.x, nodeA.y);
@@ -408,11 +901,13 @@ export class GameScene extends Phaser.Scene {
 
       traveler.add([flipperL, flipperR, body, belly, beak]);
 
-      // If double bridge, offset slightly
-      if (bridgeCount === 2) {
-          const isVert = nodeA.x === nodeB.x;
-          if (isVert) traveler.x += (Math.random() > 0.5 ? 6 : -6);
-          else traveler.y += (Math.random() > 0.5 ? 6 : -6);
+      // On a multi-cable bridge, walk one of the lanes
+      if (bridgeCount > 1) {
+          const lanes = this.cableManager.getLaneOffsets(bridgeCount);
+          const offset = lanes[Math.floor(Math.random() * lanes.length)];
+          const length = Math.hypot(nodeB.x - nodeA.x, nodeB.y - nodeA.y);
+          traveler.x += -(nodeB.y - nodeA.y) / length * offset;
+          traveler.y += (nodeB.x - nodeA.x) / length * offset;
       }
 
       // Tween Movement
@@ -439,7 +934,7 @@ export class GameScene extends Phaser.Scene {
 
   private startCityParade() {
       // Get all connected paths
-      const edges = this.cableManager.getAllEdges();
+      const edges = this.board.getEdges();
       
       edges.forEach((edge, index) => {
           // Delay start for chaos
@@ -471,8 +966,8 @@ export class GameScene extends Phaser.Scene {
   }
 
   private spawnTravelerPerson(startId: string, endId: string, bridgeCount: number) {
-      const nodeA = this.houses.find(h => h.name === startId);
-      const nodeB = this.houses.find(h => h.name === endId);
+      const nodeA = this.houseById.get(startId);
+      const nodeB = this.houseById.get(endId);
       if (!nodeA || !nodeB) return;
 
       const traveler = this.add.container(nodeA.x, nodeA.y);
@@ -492,11 +987,13 @@ export class GameScene extends Phaser.Scene {
 
       traveler.add([body, head]);
 
-      // If double bridge, offset slightly
-      if (bridgeCount === 2) {
-          const isVert = nodeA.x === nodeB.x;
-          if (isVert) traveler.x += (Math.random() > 0.5 ? 6 : -6);
-          else traveler.y += (Math.random() > 0.5 ? 6 : -6);
+      // On a multi-cable bridge, walk one of the lanes
+      if (bridgeCount > 1) {
+          const lanes = this.cableManager.getLaneOffsets(bridgeCount);
+          const offset = lanes[Math.floor(Math.random() * lanes.length)];
+          const length = Math.hypot(nodeB.x - nodeA.x, nodeB.y - nodeA.y);
+          traveler.x += -(nodeB.y - nodeA.y) / length * offset;
+          traveler.y += (nodeB.x - nodeA.x) / length * offset;
       }
 
       // Tween Movement
@@ -0,0 +1,69 @@
+import { LevelRef } from '../campaign/Campaign';
+
+const STORAGE_KEY = 'themed-hashi.campaign';
+
+// Best results on one level. Stars and time are tracked separately: the fastest solve may have used a hint.
+export interface LevelProgress {
+  stars: number;
+  bestTime: number;
+  solvedAt: string; // ISO timestamp of the first solve
+}
+
+export interface CampaignProgress {
+  version: 1;
+  levels: Record<string, LevelProgress>; // Key: "packId/levelId"
+}
+
+/**
+ * Campaign progress, persisted in localStorage.
+ */
+export class CampaignStore {
+  public static load(): CampaignProgress {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      if (!raw) return this.createEmpty();
+
+      const parsed = JSON.parse(raw) as CampaignProgress;
+      if (parsed.version !== 1 || typeof parsed.levels !== 'object' || parsed.levels === null) return this.createEmpty();
+      return parsed;
+    } catch (e) {
+      console.warn("Could not read campaign progress", e);
+      return this.createEmpty();
+    }
+  }
+
+  public static recordSolve(ref: LevelRef, seconds: number, stars: number): CampaignProgress {
+    const progress = this.load();
+    const key = this.getKey(ref);
+    const existing = progress.levels[key];
+
+    progress.levels[key] = existing
+      ? { stars: Math.max(existing.stars, stars), bestTime: Math.min(existing.bestTime, seconds), solvedAt: existing.solvedAt }
+      : { stars, bestTime: seconds, solvedAt: new Date().toISOString() };
+
+    this.save(progress);
+    return progress;
+  }
+
+  public static getLevel(progress: CampaignProgress, ref: LevelRef): LevelProgress | null {
+    return progress.levels[this.getKey(ref)] || null;
+  }
+
+  // --- Internals ---
+
+  private static getKey(ref: LevelRef): string {
+    return `${ref.packId}/${ref.levelId}`;
+  }
+
+  private static createEmpty(): CampaignProgress {
+    return { version: 1, levels: {} };
+  }
+
+  private static save(progress: CampaignProgress) {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+    } catch (e) {
+      console.warn("Could not save campaign progress", e);
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { Difficulty } from '../../types';
+import { ProfileStore, Streaks } from './ProfileStore';
+
+const STORAGE_KEY = 'themed-hashi.daily';
+
+// Best result on one day's puzzle at one difficulty
+export interface DailyResult {
+  day: string; // "YYYY-MM-DD" of the puzzle, not of the solve
+  difficulty: Difficulty;
+  seconds: number;
+  solvedAt: string; // ISO timestamp
+}
+
+export interface DailyProfile {
+  version: 1;
+  results: DailyResult[];
+}
+
+/**
+ * Daily puzzle results, persisted in localStorage.
+ * One result per day and difficulty; replays only replace it with a faster time.
+ */
+export class DailyStore {
+  public static load(): DailyProfile {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      if (!raw) return this.createEmpty();
+
+      const parsed = JSON.parse(raw) as DailyProfile;
+      if (parsed.version !== 1 || !Array.isArray(parsed.results)) return this.createEmpty();
+      return parsed;
+    } catch (e) {
+      console.warn("Could not read daily results", e);
+      return this.createEmpty();
+    }
+  }
+
+  public static recordSolve(result: DailyResult): DailyProfile {
+    const profile = this.load();
+    const existing = this.getResult(profile, result.day, result.difficulty);
+
+    if (!existing) {
+      profile.results.push(result);
+    } else if (result.seconds < existing.seconds) {
+      profile.results[profile.results.indexOf(existing)] = result;
+    }
+
+    this.save(profile);
+    return profile;
+  }
+
+  public static getResult(profile: DailyProfile, day: string, difficulty: Difficulty): DailyResult | null {
+    return profile.results.find(r => r.day === day && r.difficulty === difficulty) || null;
+  }
+
+  /** Number of difficulties solved on each day that has any. */
+  public static getSolvedDays(profile: DailyProfile): Map<string, number> {
+    const days = new Map<string, number>();
+    profile.results.forEach(r => days.set(r.day, (days.get(r.day) || 0) + 1));
+    return days;
+  }
+
+  /** A day counts toward the streak once any of its puzzles is solved. */
+  public static getStreaks(profile: DailyProfile, today: Date = new Date()): Streaks {
+    return ProfileStore.getStreaksFromDays(new Set(profile.results.map(r => r.day)), today);
+  }
+
+  // --- Internals ---
+
+  private static createEmpty(): DailyProfile {
+    return { version: 1, results: [] };
+  }
+
+  private static save(profile: DailyProfile) {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+    } catch (e) {
+      console.warn("Could not save daily results", e);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { Difficulty, DifficultyStats, GameStats, SolveRecord } from '../../types';
+
+const STORAGE_KEY = 'themed-hashi.profile';
+
+export interface Profile {
+  version: 1;
+  records: SolveRecord[];
+}
+
+export interface Streaks {
+  current: number; // Consecutive days up to today (or yesterday) with at least one solve
+  longest: number;
+}
+
+/**
+ * Lifetime player profile, persisted in localStorage.
+ * All reads tolerate missing or corrupt data so a bad save never blocks the game.
+ */
+export class ProfileStore {
+  public static load(): Profile {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      if (!raw) return this.createEmpty();
+
+      const parsed = JSON.parse(raw) as Profile;
+      if (parsed.version !== 1 || !Array.isArray(parsed.records)) return this.createEmpty();
+      return parsed;
+    } catch (e) {
+      console.warn("Could not read profile", e);
+      return this.createEmpty();
+    }
+  }
+
+  public static recordSolve(record: SolveRecord): Profile {
+    const profile = this.load();
+    profile.records.push(record);
+    this.save(profile);
+    return profile;
+  }
+
+  public static clear(): Profile {
+    const profile = this.createEmpty();
+    this.save(profile);
+    return profile;
+  }
+
+  public static getStats(profile: Profile): GameStats {
+    const stats = {} as GameStats;
+    Object.values(Difficulty).forEach(d => {
+      stats[d] = this.summarize(profile.records.filter(r => r.difficulty === d));
+    });
+    return stats;
+  }
+
+  public static getTotals(profile: Profile): DifficultyStats & { hintsUsed: number, undoCount: number } {
+    return {
+      ...this.summarize(profile.records),
+      hintsUsed: profile.records.reduce((sum, r) => sum + r.hintsUsed, 0),
+      undoCount: profile.records.reduce((sum, r) => sum + r.undoCount, 0),
+    };
+  }
+
+  public static getStreaks(profile: Profile, today: Date = new Date()): Streaks {
+    return this.getStreaksFromDays(new Set(profile.records.map(r => this.toDayKey(new Date(r.solvedAt)))), today);
+  }
+
+  /** Streaks over a set of "YYYY-MM-DD" day keys. */
+  public static getStreaksFromDays(days: Set<string>, today: Date = new Date()): Streaks {
+    const sorted = Array.from(days).sort();
+
+    // Longest run of consecutive days
+    let longest = 0;
+    let run = 0;
+    let previous: string | null = null;
+    for (const day of sorted) {
+      run = previous !== null && this.addDays(previous, 1) === day ? run + 1 : 1;
+      longest = Math.max(longest, run);
+      previous = day;
+    }
+
+    // A streak survives until the end of the day after the last solve
+    let cursor = this.toDayKey(today);
+    if (!days.has(cursor)) cursor = this.addDays(cursor, -1);
+    let current = 0;
+    while (days.has(cursor)) {
+      current++;
+      cursor = this.addDays(cursor, -1);
+    }
+
+    return { current, longest };
+  }
+
+  /** Local calendar day as "YYYY-MM-DD". */
+  public static toDayKey(date: Date): string {
+    const y = date.getFullYear();
+    const m = (date.getMonth() + 1).toString().padStart(2, '0');
+    const d = date.getDate().toString().padStart(2, '0');
+    return `${y}-${m}-${d}`;
+  }
+
+  /** Shifts a "YYYY-MM-DD" day key by whole days. */
+  public static addDays(dayKey: string, delta: number): string {
+    const [y, m, d] = dayKey.split('-').map(Number);
+    return this.toDayKey(new Date(y, m - 1, d + delta));
+  }
+
+  // --- Internals ---
+
+  private static summarize(records: SolveRecord[]): DifficultyStats {
+    if (records.length === 0) {
+      return { completed: 0, time: 0, bestTime: null, averageTime: null };
+    }
+    const time = records.reduce((sum, r) => sum + r.seconds, 0);
+    return {
+      completed: records.length,
+      time,
+      bestTime: Math.min(...records.map(r => r.seconds)),
+      averageTime: Math.round(time / records.length),
+    };
+  }
+
+  private static createEmpty(): Profile {
+    return { version: 1, records: [] };
+  }
+
+  private static save(profile: Profile) {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+    } catch (e) {
+      console.warn("Could not save profile", e);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { AnnotationData, CustomDifficulty, Difficulty, EdgeData, GridPoint, MoveAction, NodeData, Theme } from '../../types';
+
+// Dailies keep their own slot, so starting one never ends a session or level in progress
+export type SaveSlot = 'GAME' | 'DAILY';
+
+const STORAGE_KEYS: Record<SaveSlot, string> = {
+  GAME: 'themed-hashi.savegame',
+  DAILY: 'themed-hashi.savegame.daily',
+};
+
+// Everything needed to put an in-progress puzzle back on screen
+export interface SavedGame {
+  version: 1;
+  difficulty: Difficulty;
+  theme: Theme;
+  seed: string; // Empty for imported puzzles
+  custom?: CustomDifficulty; // Generator settings of a custom board
+  width: number;
+  height: number;
+  maxBridges: number; // Cables allowed between one pair of houses
+  diagonal?: boolean; // Diagonal variant
+  obstacles?: GridPoint[]; // Grid points no cable may pass over
+  capacity?: number; // Power-flow rule
+  nodes: NodeData[];
+  solutions: EdgeData[][]; // Every known solution; imported boards may have several
+  edges: EdgeData[];
+  annotations: AnnotationData[]; // Pencil marks
+  history: MoveAction[];
+  redoStack: MoveAction[];
+  undoCount: number;
+  hintsUsed: number;
+  timeLeft: number; // Remaining session seconds
+  puzzleSeconds: number; // Seconds spent on this puzzle so far
+  savedAt: string; // ISO timestamp
+}
+
+/**
+ * Autosave for the puzzle in progress, persisted in localStorage: one slot for session,
+ * campaign and imported boards, one for the daily puzzle.
+ */
+export class SaveGameStore {
+  public static load(slot: SaveSlot = 'GAME'): SavedGame | null {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEYS[slot]);
+      if (!raw) return null;
+
+      const parsed = JSON.parse(raw) as SavedGame;
+      if (parsed.version !== 1 || !Array.isArray(parsed.nodes) || parsed.nodes.length === 0) return null;
+      return parsed;
+    } catch (e) {
+      console.warn("Could not read saved game", e);
+      return null;
+    }
+  }
+
+  public static save(game: SavedGame, slot: SaveSlot = 'GAME') {
+    try {
+      window.localStorage.setItem(STORAGE_KEYS[slot], JSON.stringify(game));
+    } catch (e) {
+      console.warn("Could not save game", e);
+    }
+  }
+
+  public static clear(slot: SaveSlot = 'GAME') {
+    try {
+      window.localStorage.removeItem(STORAGE_KEYS[slot]);
+    } catch (e) {
+      console.warn("Could not clear saved game", e);
+    }
+  }
+}
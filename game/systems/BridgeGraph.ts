@@ -0,0 +1,158 @@
+import { DEFAULT_MAX_BRIDGES, GridPoint, NodeData, EdgeData } from '../../types';
+import { GridGeometry } from './GridGeometry';
+
+// A pair of houses that could legally be joined by cables
+export interface Bridge {
+  a: number; // Node index
+  b: number; // Node index
+  crossings: number[]; // Indices of bridges that would cross this one
+}
+
+/**
+ * Every legal connection on a board, shared by the solver and the grader.
+ * Bridges follow the same rules as BoardState.canConnect: aligned (diagonals too under
+ * the diagonal rule), no house or obstacle in between.
+ */
+export class BridgeGraph {
+  public readonly nodes: NodeData[];
+  public readonly bridges: Bridge[] = [];
+  public readonly nodeBridges: number[][]; // Bridge indices touching each node
+  public readonly maxBridges: number;
+  public readonly diagonal: boolean;
+  public readonly obstacles: GridPoint[];
+
+  constructor(nodes: NodeData[], maxBridges: number = DEFAULT_MAX_BRIDGES, diagonal: boolean = false, obstacles: GridPoint[] = []) {
+    this.nodes = nodes;
+    this.maxBridges = maxBridges;
+    this.diagonal = diagonal;
+    this.obstacles = obstacles;
+    this.nodeBridges = nodes.map(() => []);
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const u = nodes[i];
+        const v = nodes[j];
+        if (!GridGeometry.isAligned(u, v, diagonal)) continue;
+        if (GridGeometry.isNodeBetween(u, v, nodes)) continue;
+        if (GridGeometry.isObstacleBetween(u, v, obstacles)) continue;
+
+        this.nodeBridges[i].push(this.bridges.length);
+        this.nodeBridges[j].push(this.bridges.length);
+        this.bridges.push({ a: i, b: j, crossings: [] });
+      }
+    }
+
+    for (let i = 0; i < this.bridges.length; i++) {
+      for (let j = i + 1; j < this.bridges.length; j++) {
+        const p = this.bridges[i];
+        const q = this.bridges[j];
+        if (GridGeometry.linesCross(nodes[p.a], nodes[p.b], nodes[q.a], nodes[q.b])) {
+          p.crossings.push(j);
+          q.crossings.push(i);
+        }
+      }
+    }
+  }
+
+  public otherEnd(bridgeIndex: number, nodeIndex: number): number {
+    const bridge = this.bridges[bridgeIndex];
+    return bridge.a === nodeIndex ? bridge.b : bridge.a;
+  }
+
+  /**
+   * Finds the bridge joining two houses, or -1 if they can't be connected.
+   */
+  public findBridge(idA: string, idB: string): number {
+    return this.bridges.findIndex(bridge => {
+      const a = this.nodes[bridge.a].id;
+      const b = this.nodes[bridge.b].id;
+      return (a === idA && b === idB) || (a === idB && b === idA);
+    });
+  }
+
+  /**
+   * Whether every house is reachable using bridges with a non-zero count.
+   */
+  public isConnected(counts: number[]): boolean {
+    const n = this.nodes.length;
+    if (n === 0) return true;
+
+    const visited = new Array<boolean>(n).fill(false);
+    const queue = [0];
+    visited[0] = true;
+    let seen = 1;
+
+    while (queue.length > 0) {
+      const curr = queue.pop()!;
+      for (const b of this.nodeBridges[curr]) {
+        if (counts[b] === 0) continue;
+        const other = this.otherEnd(b, curr);
+        if (!visited[other]) {
+          visited[other] = true;
+          seen++;
+          queue.push(other);
+        }
+      }
+    }
+    return seen === n;
+  }
+
+  /**
+   * Whether some group of houses already has all its cables (per `placed`) yet doesn't
+   * include the whole board — such a group can never join the rest.
+   */
+  public hasClosedIsland(placed: number[]): boolean {
+    const n = this.nodes.length;
+    const visited = new Array<boolean>(n).fill(false);
+
+    for (let start = 0; start < n; start++) {
+      if (visited[start]) continue;
+
+      const queue = [start];
+      visited[start] = true;
+      let size = 1;
+      let closed = true;
+
+      while (queue.length > 0) {
+        const curr = queue.pop()!;
+        let total = 0;
+        for (const b of this.nodeBridges[curr]) {
+          if (placed[b] === 0) continue;
+          total += placed[b];
+          const other = this.otherEnd(b, curr);
+          if (!visited[other]) {
+            visited[other] = true;
+            size++;
+            queue.push(other);
+          }
+        }
+        if (total < this.nodes[curr].requiredConnections) closed = false;
+      }
+
+      if (closed && size < n) return true;
+    }
+    return false;
+  }
+
+  public toEdges(counts: number[]): EdgeData[] {
+    const edges: EdgeData[] = [];
+    this.bridges.forEach((bridge, i) => {
+      if (counts[i] > 0) {
+        edges.push({ nodeA: this.nodes[bridge.a].id, nodeB: this.nodes[bridge.b].id, count: counts[i] });
+      }
+    });
+    return edges;
+  }
+
+  /**
+   * Bridge counts for a set of edges (edges that aren't legal bridges are ignored).
+   */
+  public fromEdges(edges: EdgeData[]): number[] {
+    const counts = this.bridges.map(() => 0);
+    edges.forEach(e => {
+      const b = this.findBridge(e.nodeA, e.nodeB);
+      if (b !== -1) counts[b] = e.count;
+    });
+    return counts;
+  }
+}
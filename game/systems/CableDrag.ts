@@ -0,0 +1,89 @@
+import Phaser from 'phaser';
+import { House } from '../objects/House';
+import { CableManager } from './CableManager';
+import { GridGeometry } from './GridGeometry';
+
+// Pointer travel (px) before a press on a house counts as a drag instead of a click
+const DRAG_THRESHOLD = 12;
+
+export interface CableDragOptions {
+  diagonal: boolean;
+  /** House a cable from `origin` would reach in a grid direction, or null if none can be laid. */
+  findNeighbor: (origin: House, stepX: number, stepY: number) => House | null;
+  /** A press turned into a drag; any half-finished click selection should go. */
+  onDragStart: () => void;
+  /** Released without moving. */
+  onClick: (house: House) => void;
+  /** Dragged from one house and released on a reachable one. */
+  onDrop: (origin: House, target: House) => void;
+}
+
+/**
+ * Press-drag-release cable drawing shared by the play and editor scenes. A press on a house
+ * that is released in place is a click; dragged further, the cable follows the pointer in
+ * the nearest grid direction and snaps to the house it would reach.
+ */
+export class CableDrag {
+  private cableManager: CableManager;
+  private options: CableDragOptions;
+  private origin: House | null = null;
+  private target: House | null = null;
+  private isDragging = false;
+
+  constructor(cableManager: CableManager, options: CableDragOptions) {
+    this.cableManager = cableManager;
+    this.options = options;
+  }
+
+  public start(house: House) {
+    this.origin = house;
+    this.target = null;
+    this.isDragging = false;
+  }
+
+  public move(pointer: Phaser.Input.Pointer) {
+    const origin = this.origin;
+    if (!origin) return;
+
+    const dx = pointer.x - origin.x;
+    const dy = pointer.y - origin.y;
+    if (!this.isDragging) {
+      if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+      this.isDragging = true;
+      this.options.onDragStart();
+    }
+
+    // Cables are straight, so follow whichever direction the pointer has moved along most
+    const [stepX, stepY] = GridGeometry.snapDirection(dx, dy, this.options.diagonal);
+    this.target = this.options.findNeighbor(origin, stepX, stepY);
+
+    // Unsnapped, the preview runs to the pointer's projection onto that direction
+    const along = (dx * stepX + dy * stepY) / (stepX * stepX + stepY * stepY);
+    this.cableManager.setPreview({
+      fromX: origin.x,
+      fromY: origin.y,
+      toX: this.target ? this.target.x : origin.x + stepX * along,
+      toY: this.target ? this.target.y : origin.y + stepY * along,
+      snapped: this.target !== null,
+    });
+  }
+
+  public end() {
+    const origin = this.origin;
+    if (!origin) return;
+
+    const wasDragging = this.isDragging;
+    const target = this.target;
+    this.origin = null;
+    this.target = null;
+    this.isDragging = false;
+
+    if (!wasDragging) {
+      this.options.onClick(origin);
+      return;
+    }
+
+    this.cableManager.setPreview(null);
+    if (target) this.options.onDrop(origin, target);
+  }
+}
@@ -1,151 +1,105 @@
 import Phaser from 'phaser';
-import { EdgeData, NodeData, Theme } from '../../types';
+import { EdgeData, Theme } from '../../types';
+import { BoardState } from '../model/BoardState';
 import { House } from '../objects/House';
 
+/**
+ * Draws a BoardState's cables and pencil marks, plus what only the screen shows: the hint,
+ * flagged mistakes and the drag preview. Each pair of houses has its own Graphics, so a board
+ * change redraws just the pair it names.
+ */
 export class CableManager {
   private scene: Phaser.Scene;
-  private graphics: Phaser.GameObjects.Graphics;
-  private edges: Map<string, EdgeData>; // Key: "idA-idB" (sorted)
+  private board: BoardState;
+  private getHouse: (id: string) => House | undefined; // Where each house is drawn
   private theme: Theme = Theme.POWER_GRID;
+  private isSolved = false;
+  private hint: { nodeA: string, nodeB: string, isMistake: boolean } | null = null;
+  private errorKeys: Set<string> = new Set(); // Cables flagged by an error check
+  private preview: { fromX: number, fromY: number, toX: number, toY: number, snapped: boolean } | null = null;
 
-  constructor(scene: Phaser.Scene) {
+  // Bottom to top: hint glow, pencil marks, cables, drag preview
+  private hintGraphics: Phaser.GameObjects.Graphics;
+  private markLayer: Phaser.GameObjects.Container;
+  private cableLayer: Phaser.GameObjects.Container;
+  private previewGraphics: Phaser.GameObjects.Graphics;
+  private markGraphics: Map<string, Phaser.GameObjects.Graphics> = new Map();
+  private cableGraphics: Map<string, Phaser.GameObjects.Graphics> = new Map();
+
+  constructor(scene: Phaser.Scene, board: BoardState, getHouse: (id: string) => House | undefined) {
     this.scene = scene;
-    this.graphics = scene.add.graphics();
-    this.edges = new Map();
+    this.hintGraphics = scene.add.graphics();
+    this.markLayer = scene.add.container();
+    this.cableLayer = scene.add.container();
+    this.previewGraphics = scene.add.graphics();
+    this.board = board;
+    this.getHouse = getHouse;
+    board.subscribe(change => {
+      // A placed cable hides a pair's "at least one" mark, so both follow a cable change
+      if (change.type === 'CABLE') {
+        this.drawCable(change.nodeA, change.nodeB);
+        this.drawMark(change.nodeA, change.nodeB);
+      } else if (change.type === 'MARK') {
+        this.drawMark(change.nodeA, change.nodeB);
+      }
+    });
   }
   
   public setTheme(theme: Theme) {
     this.theme = theme;
-    this.draw();
-  }
-
-  public reset() {
-    this.edges.clear();
-    this.graphics.clear();
+    this.drawAll();
   }
 
-  public getEdgeKey(idA: string, idB: string): string {
-    return idA < idB ? `${idA}-${idB}` : `${idB}-${idA}`;
+  /**
+   * Marks cables that contradict the solution; they are drawn in red until cleared.
+   */
+  public setErrors(edges: EdgeData[]) {
+    const previous = this.errorKeys;
+    this.errorKeys = new Set(edges.map(e => BoardState.getEdgeKey(e.nodeA, e.nodeB)));
+    // Only cables whose flag changed need redrawing
+    this.board.getEdges().forEach(e => {
+      const key = BoardState.getEdgeKey(e.nodeA, e.nodeB);
+      if (previous.has(key) !== this.errorKeys.has(key)) this.drawCable(e.nodeA, e.nodeB);
+    });
   }
 
-  public hasConnection(idA: string, idB: string): number {
-    const key = this.getEdgeKey(idA, idB);
-    return this.edges.get(key)?.count || 0;
+  public setHint(hint: { nodeA: string, nodeB: string, isMistake: boolean } | null) {
+    this.hint = hint;
+    this.drawHint();
   }
 
-  public toggleConnection(nodeA: House, nodeB: House): number {
-    const key = this.getEdgeKey(nodeA.dataModel.id, nodeB.dataModel.id);
-    const current = this.edges.get(key);
-    
-    let newCount = 0;
-    if (!current) {
-      newCount = 1;
-    } else if (current.count === 1) {
-      newCount = 2;
-    } else {
-      newCount = 0;
-    }
-
-    if (newCount === 0) {
-      this.edges.delete(key);
-    } else {
-      this.edges.set(key, { 
-        nodeA: nodeA.dataModel.id, 
-        nodeB: nodeB.dataModel.id, 
-        count: newCount 
-      });
-    }
-
-    this.draw();
-    return newCount;
+  /**
+   * Line following a drag in progress. Snapped previews end on a house the cable can reach.
+   */
+  public setPreview(preview: { fromX: number, fromY: number, toX: number, toY: number, snapped: boolean } | null) {
+    this.preview = preview;
+    this.drawPreview();
   }
 
-  public setConnection(nodeA: House, nodeB: House, count: number) {
-    const key = this.getEdgeKey(nodeA.dataModel.id, nodeB.dataModel.id);
-    
-    if (count === 0) {
-      this.edges.delete(key);
-    } else {
-      this.edges.set(key, { 
-        nodeA: nodeA.dataModel.id, 
-        nodeB: nodeB.dataModel.id, 
-        count: count 
-      });
-    }
-
-    this.draw();
+  /**
+   * Sideways offsets of the parallel lines drawn for `count` cables, centered on the line
+   * between the houses. Travelers walking a bridge pick one of these.
+   */
+  public getLaneOffsets(count: number): number[] {
+    const spacing = this.theme === Theme.CITY ? 16 : 12;
+    return Array.from({ length: count }, (_, i) => (i - (count - 1) / 2) * spacing);
   }
 
-  public canConnect(nodeA: House, nodeB: House, allNodes: House[]): boolean {
-    const dA = nodeA.dataModel;
-    const dB = nodeB.dataModel;
-
-    // 1. Orthogonal check
-    if (dA.x !== dB.x && dA.y !== dB.y) return false;
-
-    // 2. Node between check
-    const isVertical = dA.x === dB.x;
-    for (const other of allNodes) {
-      if (other === nodeA || other === nodeB) continue;
-      const dO = other.dataModel;
-      
-      if (isVertical) {
-        if (dO.x === dA.x && 
-           ((dO.y > dA.y && dO.y < dB.y) || (dO.y > dB.y && dO.y < dA.y))) return false;
-      } else {
-        if (dO.y === dA.y && 
-           ((dO.x > dA.x && dO.x < dB.x) || (dO.x > dB.x && dO.x < dA.x))) return false;
-      }
-    }
-
-    // 3. Cable crossing check
-    // Logic: If we are drawing vertical, check against all horizontal edges in range
-    const newMinX = Math.min(dA.x, dB.x);
-    const newMaxX = Math.max(dA.x, dB.x);
-    const newMinY = Math.min(dA.y, dB.y);
-    const newMaxY = Math.max(dA.y, dB.y);
-
-    for (const edge of this.edges.values()) {
-      const n1 = allNodes.find(n => n.dataModel.id === edge.nodeA)!;
-      const n2 = allNodes.find(n => n.dataModel.id === edge.nodeB)!;
-      
-      // Skip if connected to same nodes (updating existing edge is fine)
-      if (edge.nodeA === dA.id || edge.nodeA === dB.id || 
-          edge.nodeB === dA.id || edge.nodeB === dB.id) continue;
-
-      const eIsVert = n1.dataModel.x === n2.dataModel.x;
-
-      if (isVertical && !eIsVert) {
-        // New is Vert, Existing is Horiz -> Possible cross
-        const eY = n1.dataModel.y;
-        const eMinX = Math.min(n1.dataModel.x, n2.dataModel.x);
-        const eMaxX = Math.max(n1.dataModel.x, n2.dataModel.x);
-
-        if (dA.x > eMinX && dA.x < eMaxX && eY > newMinY && eY < newMaxY) return false;
-      } else if (!isVertical && eIsVert) {
-        // New is Horiz, Existing is Vert -> Possible cross
-        const eX = n1.dataModel.x;
-        const eMinY = Math.min(n1.dataModel.y, n2.dataModel.y);
-        const eMaxY = Math.max(n1.dataModel.y, n2.dataModel.y);
-
-        if (dA.y > eMinY && dA.y < eMaxY && eX > newMinX && eX < newMaxX) return false;
-      }
-    }
-
-    return true;
+  public setSolvedState(isSolved: boolean) {
+    this.isSolved = isSolved;
+    this.drawAll();
   }
 
-  public getAllEdges() {
-    return Array.from(this.edges.values());
+  private drawAll() {
+    this.drawHint();
+    this.board.getAnnotations().forEach(note => this.drawMark(note.nodeA, note.nodeB));
+    this.board.getEdges().forEach(edge => this.drawCable(edge.nodeA, edge.nodeB));
+    this.drawPreview();
   }
 
-  public setSolvedState(isSolved: boolean) {
-    this.draw(isSolved);
-  }
-
-  private draw(isSolved: boolean = false) {
-    this.graphics.clear();
-    
+  // Cable look for the theme, before any mistake flag
+  private getStyle(): { color: number, alpha: number, width: number } {
+    const isSolved = this.isSolved;
     let color = 0x666666;
     let alpha = 1;
     let width = 3;
@@ -177,97 +131,147 @@ export class CableManager {
         }
     }
 
-    this.edges.forEach(edge => {
-      const nodeA = this.scene.children.getByName(edge.nodeA) as House;
-      const nodeB = this.scene.children.getByName(edge.nodeB) as House;
+    return { color, alpha, width };
+  }
 
-      if (nodeA && nodeB) {
-        if (edge.count === 1) {
-          this.graphics.lineStyle(width, color, alpha);
-          this.graphics.beginPath();
-          this.graphics.moveTo(nodeA.x, nodeA.y);
-          this.graphics.lineTo(nodeB.x, nodeB.y);
-          this.graphics.strokePath();
-          
-          // Draw dashed center line for streets
-          if (this.theme === Theme.CITY) {
-             this.graphics.lineStyle(1, 0xffffff, 0.8);
-             this.graphics.beginPath();
-             // Simple dashed line approximation
-             const dx = nodeB.x - nodeA.x;
-             const dy = nodeB.y - nodeA.y;
-             const dist = Math.sqrt(dx*dx + dy*dy);
-             const steps = Math.floor(dist / 10);
-             for(let i=0; i<steps; i+=2) {
-                 const startX = nodeA.x + (dx * (i/steps));
-                 const startY = nodeA.y + (dy * (i/steps));
-                 const endX = nodeA.x + (dx * ((i+1)/steps));
-                 const endY = nodeA.y + (dy * ((i+1)/steps));
-                 this.graphics.moveTo(startX, startY);
-                 this.graphics.lineTo(endX, endY);
-             }
-             this.graphics.strokePath();
-          }
-        } else {
-          // Double line
-          const isVert = nodeA.x === nodeB.x;
-          const offset = this.theme === Theme.CITY ? 8 : 6;
-          
-          this.graphics.lineStyle(width, color, alpha);
-          
-          if (isVert) {
-            this.graphics.beginPath();
-            this.graphics.moveTo(nodeA.x - offset, nodeA.y);
-            this.graphics.lineTo(nodeB.x - offset, nodeB.y);
-            this.graphics.moveTo(nodeA.x + offset, nodeA.y);
-            this.graphics.lineTo(nodeB.x + offset, nodeB.y);
-            this.graphics.strokePath();
-            
-            // Draw dashed center line for streets
-            if (this.theme === Theme.CITY) {
-               this.graphics.lineStyle(1, 0xffffff, 0.8);
-               this.graphics.beginPath();
-               const dy = nodeB.y - nodeA.y;
-               const dist = Math.abs(dy);
-               const steps = Math.floor(dist / 10);
-               for(let i=0; i<steps; i+=2) {
-                   const startY = nodeA.y + (dy * (i/steps));
-                   const endY = nodeA.y + (dy * ((i+1)/steps));
-                   this.graphics.moveTo(nodeA.x - offset, startY);
-                   this.graphics.lineTo(nodeA.x - offset, endY);
-                   this.graphics.moveTo(nodeA.x + offset, startY);
-                   this.graphics.lineTo(nodeA.x + offset, endY);
-               }
-               this.graphics.strokePath();
-            }
-          } else {
-            this.graphics.beginPath();
-            this.graphics.moveTo(nodeA.x, nodeA.y - offset);
-            this.graphics.lineTo(nodeB.x, nodeB.y - offset);
-            this.graphics.moveTo(nodeA.x, nodeA.y + offset);
-            this.graphics.lineTo(nodeB.x, nodeB.y + offset);
-            this.graphics.strokePath();
-            
-            // Draw dashed center line for streets
-            if (this.theme === Theme.CITY) {
-               this.graphics.lineStyle(1, 0xffffff, 0.8);
-               this.graphics.beginPath();
-               const dx = nodeB.x - nodeA.x;
-               const dist = Math.abs(dx);
-               const steps = Math.floor(dist / 10);
-               for(let i=0; i<steps; i+=2) {
-                   const startX = nodeA.x + (dx * (i/steps));
-                   const endX = nodeA.x + (dx * ((i+1)/steps));
-                   this.graphics.moveTo(startX, nodeA.y - offset);
-                   this.graphics.lineTo(endX, nodeA.y - offset);
-                   this.graphics.moveTo(startX, nodeA.y + offset);
-                   this.graphics.lineTo(endX, nodeA.y + offset);
-               }
-               this.graphics.strokePath();
-            }
-          }
-        }
+  /**
+   * Graphics for one pair in a layer, created on first use. With nothing left to draw
+   * (`keep` false) the pair's Graphics is dropped instead.
+   */
+  private pairGraphics(layer: Phaser.GameObjects.Container, graphics: Map<string, Phaser.GameObjects.Graphics>, key: string, keep: boolean): Phaser.GameObjects.Graphics | null {
+    let g = graphics.get(key) ?? null;
+    if (!keep) {
+      g?.destroy();
+      graphics.delete(key);
+      return null;
+    }
+    if (!g) {
+      g = this.scene.add.graphics();
+      layer.add(g);
+      graphics.set(key, g);
+    }
+    g.clear();
+    return g;
+  }
+
+  private drawHint() {
+    const g = this.hintGraphics;
+    g.clear();
+    if (!this.hint) return;
+    const nodeA = this.getHouse(this.hint.nodeA);
+    const nodeB = this.getHouse(this.hint.nodeB);
+    if (!nodeA || !nodeB) return;
+    g.lineStyle(16, this.hint.isMistake ? 0xff1744 : 0xe040fb, 0.45);
+    g.beginPath();
+    g.moveTo(nodeA.x, nodeA.y);
+    g.lineTo(nodeB.x, nodeB.y);
+    g.strokePath();
+  }
+
+  private drawMark(idA: string, idB: string) {
+    const key = BoardState.getEdgeKey(idA, idB);
+    const mark = this.board.getAnnotation(idA, idB);
+    const nodeA = this.getHouse(idA);
+    const nodeB = this.getHouse(idB);
+    // A placed cable already says as much as "at least one"
+    const visible = mark === 'NO_BRIDGE' || (mark === 'AT_LEAST_ONE' && this.board.getCount(idA, idB) === 0);
+    const g = this.pairGraphics(this.markLayer, this.markGraphics, key, visible && !!nodeA && !!nodeB);
+    if (!g || !nodeA || !nodeB) return;
+
+    if (mark === 'AT_LEAST_ONE') {
+      g.fillStyle(this.getStyle().color, 0.7);
+      const dx = nodeB.x - nodeA.x;
+      const dy = nodeB.y - nodeA.y;
+      const steps = Math.floor(Math.sqrt(dx*dx + dy*dy) / 12);
+      for (let i = 1; i < steps; i++) {
+        g.fillCircle(nodeA.x + dx * (i / steps), nodeA.y + dy * (i / steps), 2.5);
+      }
+    } else {
+      const midX = (nodeA.x + nodeB.x) / 2;
+      const midY = (nodeA.y + nodeB.y) / 2;
+      g.lineStyle(3, 0xff1744, 0.8);
+      g.beginPath();
+      g.moveTo(midX - 7, midY - 7);
+      g.lineTo(midX + 7, midY + 7);
+      g.moveTo(midX + 7, midY - 7);
+      g.lineTo(midX - 7, midY + 7);
+      g.strokePath();
+    }
+  }
+
+  private drawCable(idA: string, idB: string) {
+    const key = BoardState.getEdgeKey(idA, idB);
+    const count = this.board.getCount(idA, idB);
+    const nodeA = this.getHouse(idA);
+    const nodeB = this.getHouse(idB);
+    const g = this.pairGraphics(this.cableLayer, this.cableGraphics, key, count > 0 && !!nodeA && !!nodeB);
+    if (!g || !nodeA || !nodeB) return;
+
+    const { color, alpha, width } = this.getStyle();
+    const lineColor = this.errorKeys.has(key) ? 0xff1744 : color; // Red for flagged mistakes
+    const lanes = this.getLaneOffsets(count);
+
+    // Three or more ice bridges freeze into one wide bridge
+    if (this.theme === Theme.PENGUINS && count >= 3) {
+      const span = lanes[lanes.length - 1] - lanes[0];
+      this.strokeLane(g, nodeA, nodeB, 0, span + width, lineColor, alpha);
+      // Seams between the planks
+      for (let i = 1; i < lanes.length; i++) {
+        this.strokeLane(g, nodeA, nodeB, (lanes[i - 1] + lanes[i]) / 2, 1, 0x81d4fa, 0.8);
       }
+      return;
+    }
+
+    lanes.forEach(offset => {
+      this.strokeLane(g, nodeA, nodeB, offset, width, lineColor, alpha);
+      // Draw dashed center line for streets
+      if (this.theme === Theme.CITY) this.dashLane(g, nodeA, nodeB, offset);
     });
   }
-}
\ No newline at end of file
+
+  private drawPreview() {
+    const g = this.previewGraphics;
+    g.clear();
+    if (!this.preview) return;
+    const p = this.preview;
+    g.lineStyle(p.snapped ? 5 : 3, p.snapped ? 0x00e5ff : 0xffffff, p.snapped ? 0.9 : 0.5);
+    g.beginPath();
+    g.moveTo(p.fromX, p.fromY);
+    g.lineTo(p.toX, p.toY);
+    g.strokePath();
+  }
+
+  // One straight line between two houses, shifted sideways by `offset`
+  private strokeLane(g: Phaser.GameObjects.Graphics, nodeA: House, nodeB: House, offset: number, width: number, color: number, alpha: number) {
+    const { x: ox, y: oy } = this.getSideways(nodeA, nodeB, offset);
+    g.lineStyle(width, color, alpha);
+    g.beginPath();
+    g.moveTo(nodeA.x + ox, nodeA.y + oy);
+    g.lineTo(nodeB.x + ox, nodeB.y + oy);
+    g.strokePath();
+  }
+
+  // Simple dashed line approximation for street markings
+  private dashLane(g: Phaser.GameObjects.Graphics, nodeA: House, nodeB: House, offset: number) {
+    const { x: ox, y: oy } = this.getSideways(nodeA, nodeB, offset);
+    const dx = nodeB.x - nodeA.x;
+    const dy = nodeB.y - nodeA.y;
+    const steps = Math.floor(Math.sqrt(dx*dx + dy*dy) / 10);
+
+    g.lineStyle(1, 0xffffff, 0.8);
+    g.beginPath();
+    for (let i = 0; i < steps; i += 2) {
+      g.moveTo(nodeA.x + ox + dx * (i / steps), nodeA.y + oy + dy * (i / steps));
+      g.lineTo(nodeA.x + ox + dx * ((i + 1) / steps), nodeA.y + oy + dy * ((i + 1) / steps));
+    }
+    g.strokePath();
+  }
+
+  // Offset perpendicular to the line between two houses
+  private getSideways(nodeA: House, nodeB: House, offset: number): { x: number, y: number } {
+    const dx = nodeB.x - nodeA.x;
+    const dy = nodeB.y - nodeA.y;
+    const length = Math.sqrt(dx*dx + dy*dy) || 1;
+    return { x: (-dy / length) * offset, y: (dx / length) * offset };
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Union-find over indices 0..n-1 with path compression; `count` is the number of
+ * separate groups left. Used for spanning trees in the generator and the one-network
+ * win check in play.
+ */
+export class DisjointSet {
+  parent: number[];
+  count: number;
+  constructor(n: number) {
+    this.parent = Array.from({ length: n }, (_, i) => i);
+    this.count = n;
+  }
+  find(i: number): number {
+    if (this.parent[i] === i) return i;
+    this.parent[i] = this.find(this.parent[i]);
+    return this.parent[i];
+  }
+  union(i: number, j: number) {
+    const rootI = this.find(i);
+    const rootJ = this.find(j);
+    if (rootI !== rootJ) {
+      this.parent[rootI] = rootJ;
+      this.count--;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { GridPoint } from '../../types';
+
+export class GridGeometry {
+  /**
+   * Two points can only be joined by a straight cable if they share a row or a column,
+   * or (under the diagonal rule) sit on the same 45° diagonal.
+   */
+  public static isAligned(a: GridPoint, b: GridPoint, diagonal: boolean = false): boolean {
+    return a.x === b.x || a.y === b.y || (diagonal && Math.abs(a.x - b.x) === Math.abs(a.y - b.y));
+  }
+
+  /**
+   * Whether `to` lies straight ahead of `from` in the grid direction (stepX, stepY),
+   * each step being -1, 0 or 1.
+   */
+  public static isInDirection(from: GridPoint, to: GridPoint, stepX: number, stepY: number): boolean {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    if (stepX === 0) return dx === 0 && Math.sign(dy) === stepY;
+    if (stepY === 0) return dy === 0 && Math.sign(dx) === stepX;
+    return Math.abs(dx) === Math.abs(dy) && Math.sign(dx) === stepX && Math.sign(dy) === stepY;
+  }
+
+  /**
+   * Grid direction closest to a drag of (dx, dy): one of the 4 axes, or one of 8 directions
+   * when diagonals are allowed.
+   */
+  public static snapDirection(dx: number, dy: number, diagonal: boolean = false): [number, number] {
+    if (diagonal) {
+      const octant = Math.round(Math.atan2(dy, dx) / (Math.PI / 4));
+      const angle = octant * (Math.PI / 4);
+      return [Math.round(Math.cos(angle)), Math.round(Math.sin(angle))];
+    }
+    return Math.abs(dx) >= Math.abs(dy) ? [Math.sign(dx), 0] : [0, Math.sign(dy)];
+  }
+
+  /**
+   * Closest of `points` straight ahead of `from` in the grid direction (stepX, stepY), if any.
+   */
+  public static nearestInDirection<T extends GridPoint>(from: GridPoint, points: T[], stepX: number, stepY: number): T | null {
+    let nearest: T | null = null;
+    let nearestDistance = Infinity;
+    for (const point of points) {
+      const distance = Math.max(Math.abs(point.x - from.x), Math.abs(point.y - from.y));
+      if (this.isInDirection(from, point, stepX, stepY) && distance < nearestDistance) {
+        nearest = point;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Spacing and top-left grid point that fit a width x height grid on a screen: the tighter
+   * of the two axes sets the spacing, and the bottom of the screen is left for the HUD.
+   */
+  public static fitToScreen(screenWidth: number, screenHeight: number, width: number, height: number): { cellSize: number, offsetX: number, offsetY: number } {
+    const cellSize = Math.min(screenWidth * 0.9 / width, screenHeight * 0.8 / height);
+    return {
+      cellSize,
+      offsetX: (screenWidth - (width - 1) * cellSize) / 2,
+      offsetY: (screenHeight - (height - 1) * cellSize) / 2 + 30, // Push down slightly
+    };
+  }
+
+  /**
+   * Checks whether any node (other than the endpoints) sits on the straight line between u and v.
+   * Assumes u and v are aligned.
+   */
+  public static isNodeBetween<T extends GridPoint & { id: string }>(u: T, v: T, allNodes: T[]): boolean {
+    return allNodes.some(node => node.id !== u.id && node.id !== v.id && this.liesOn(u, v, node));
+  }
+
+  /**
+   * Checks whether a straight line between u and v passes over any of the obstacles.
+   */
+  public static isObstacleBetween(u: GridPoint, v: GridPoint, obstacles: GridPoint[]): boolean {
+    return obstacles.some(p => this.liesOn(u, v, p) && !(p.x === u.x && p.y === u.y) && !(p.x === v.x && p.y === v.y));
+  }
+
+  /**
+   * Checks whether the segment a1-a2 crosses the segment b1-b2 strictly between their endpoints.
+   * Segments that only touch, or run along the same line, don't count (overlap is checked elsewhere).
+   */
+  public static linesCross(a1: GridPoint, a2: GridPoint, b1: GridPoint, b2: GridPoint): boolean {
+    const o1 = this.orientation(a1, a2, b1);
+    const o2 = this.orientation(a1, a2, b2);
+    const o3 = this.orientation(b1, b2, a1);
+    const o4 = this.orientation(b1, b2, a2);
+    return o1 * o2 < 0 && o3 * o4 < 0;
+  }
+
+  // Whether p is on the segment a-b, endpoints included
+  private static liesOn(a: GridPoint, b: GridPoint, p: GridPoint): boolean {
+    return this.orientation(a, b, p) === 0 &&
+      p.x >= Math.min(a.x, b.x) && p.x <= Math.max(a.x, b.x) &&
+      p.y >= Math.min(a.y, b.y) && p.y <= Math.max(a.y, b.y);
+  }
+
+  // Which side of the line a-b the point p is on: 1, -1, or 0 on the line
+  private static orientation(a: GridPoint, b: GridPoint, p: GridPoint): number {
+    return Math.sign((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x));
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { NodeData } from '../../types';
+import { HashiSolver, SolverBudgetError } from './HashiSolver';
+
+// A house at (x, y) that wants `required` cables
+const house = (id: string, x: number, y: number, required: number): NodeData =>
+  ({ id, x, y, requiredConnections: required, currentConnections: 0 });
+
+// Four houses on the corners of a square, all wanting the same count
+const square = (required: number) =>
+  [house('a', 0, 0, required), house('b', 2, 0, required), house('c', 0, 2, required), house('d', 2, 2, required)];
+
+describe('HashiSolver', () => {
+  describe('countSolutions', () => {
+    it('finds the one way to join a pair', () => {
+      expect(HashiSolver.countSolutions([house('a', 0, 0, 2), house('b', 3, 0, 2)])).toBe(1);
+    });
+
+    it('finds one solution for a square of 2s and of 4s', () => {
+      expect(HashiSolver.countSolutions(square(2))).toBe(1);
+      expect(HashiSolver.countSolutions(square(4))).toBe(1);
+    });
+
+    it('tells a square of 3s has two solutions', () => {
+      expect(HashiSolver.countSolutions(square(3), 5)).toBe(2);
+    });
+
+    it('finds none when the only matching cables leave two networks', () => {
+      expect(HashiSolver.countSolutions(square(1))).toBe(0);
+    });
+
+    it('honors the bridge rule, diagonals and obstacles', () => {
+      const pair = [house('a', 0, 0, 2), house('b', 2, 2, 2)];
+      expect(HashiSolver.countSolutions(pair, 2, 2, false)).toBe(0);
+      expect(HashiSolver.countSolutions(pair, 2, 2, true)).toBe(1);
+      expect(HashiSolver.countSolutions(pair, 2, 1, true)).toBe(0);
+      expect(HashiSolver.countSolutions(pair, 2, 2, true, [{ x: 1, y: 1 }])).toBe(0);
+    });
+  });
+
+  describe('solve', () => {
+    it('returns solutions whose cables add up to every count', () => {
+      const [solution] = HashiSolver.solve(square(4));
+      expect(solution).toHaveLength(4);
+      expect(solution.every(e => e.count === 2)).toBe(true);
+    });
+
+    it('drops solutions the plant cannot supply under the power-flow rule', () => {
+      // One way to join the row; the plant (b) then sends three houses' power through b-c
+      const row = [house('a', 0, 0, 1), house('b', 2, 0, 2), house('c', 4, 0, 2), house('d', 6, 0, 2), house('e', 8, 0, 1)];
+      expect(HashiSolver.solve(row, { capacity: 3 })).toHaveLength(1);
+      expect(HashiSolver.solve(row, { capacity: 2 })).toHaveLength(0);
+    });
+
+    it('gives up with a SolverBudgetError once past maxSteps', () => {
+      expect(() => HashiSolver.solve(square(3), { maxSteps: 2 })).toThrow(SolverBudgetError);
+      expect(HashiSolver.solve(square(3), { maxSteps: 100 })).toHaveLength(2);
+    });
+  });
+
+  describe('findContradictions', () => {
+    it('flags cables beyond what every solution has', () => {
+      const [solution] = HashiSolver.solve(square(2));
+      const wrong = { nodeA: 'a', nodeB: 'b', count: 2 };
+      expect(HashiSolver.findContradictions([wrong, { nodeA: 'a', nodeB: 'c', count: 1 }], [solution])).toEqual([wrong]);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { DEFAULT_MAX_BRIDGES, GridPoint, NodeData, EdgeData } from '../../types';
+import { BridgeGraph } from './BridgeGraph';
+import { PowerFlow } from './PowerFlow';
+
+export interface SolveOptions {
+  /** Stop searching once this many solutions have been found. */
+  maxSolutions?: number;
+  /** Maximum number of cables allowed between the same pair of houses (default 2). */
+  maxBridges?: number;
+  /** Whether cables may also run along 45° diagonals. */
+  diagonal?: boolean;
+  /** Grid points no cable may pass over. */
+  obstacles?: GridPoint[];
+  /** Houses one cable can supply under the power-flow rule (default: no such rule). */
+  capacity?: number;
+  /** Give up with a SolverBudgetError after this many search steps (default: no limit). */
+  maxSteps?: number;
+}
+
+/**
+ * Thrown when a search runs past its `maxSteps`: the board was too hard to settle in time,
+ * which says nothing about how many solutions it has.
+ */
+export class SolverBudgetError extends Error {
+  constructor(steps: number) {
+    super(`The solver gave up after ${steps} steps.`);
+    this.name = 'SolverBudgetError';
+  }
+}
+
+interface SolverContext {
+  graph: BridgeGraph;
+  maxSolutions: number;
+  capacity: number; // 0 without the power-flow rule
+  solutions: EdgeData[][];
+  steps: number;
+  maxSteps: number;
+}
+
+// Per-bridge bounds on how many cables it can still carry
+interface SolverState {
+  lo: number[];
+  hi: number[];
+}
+
+export class HashiSolver {
+  /**
+   * Finds solutions for a board, honoring the same rules as the game:
+   * 1. Cables run orthogonally (or diagonally, under that rule) between houses with no house or obstacle in between.
+   * 2. Cables never cross each other.
+   * 3. Every house gets exactly its required number of cables, at most `maxBridges` per pair.
+   * 4. All houses end up in a single connected network.
+   * 5. Under the power-flow rule, the cables can carry power from the plant to every house.
+   * Search stops after `maxSolutions` (default 2) solutions, which is enough to prove uniqueness.
+   * Dense boards, diagonal ones above all, can take very long; pass `maxSteps` where that matters.
+   */
+  public static solve(nodes: NodeData[], options: SolveOptions = {}): EdgeData[][] {
+    const maxSolutions = options.maxSolutions ?? 2;
+    const graph = new BridgeGraph(nodes, options.maxBridges ?? DEFAULT_MAX_BRIDGES, options.diagonal ?? false, options.obstacles ?? []);
+
+    if (nodes.length === 0) return [[]];
+
+    const ctx: SolverContext = { graph, maxSolutions, capacity: options.capacity ?? 0, solutions: [], steps: 0, maxSteps: options.maxSteps ?? Infinity };
+    const state: SolverState = {
+      lo: graph.bridges.map(() => 0),
+      hi: graph.bridges.map(() => graph.maxBridges),
+    };
+
+    this.search(ctx, state);
+    return ctx.solutions;
+  }
+
+  public static countSolutions(nodes: NodeData[], limit: number = 2, maxBridges: number = DEFAULT_MAX_BRIDGES, diagonal: boolean = false, obstacles: GridPoint[] = [], maxSteps?: number): number {
+    return this.solve(nodes, { maxSolutions: limit, maxBridges, diagonal, obstacles, maxSteps }).length;
+  }
+
+  public static hasUniqueSolution(nodes: NodeData[], maxBridges: number = DEFAULT_MAX_BRIDGES, diagonal: boolean = false, obstacles: GridPoint[] = []): boolean {
+    return this.countSolutions(nodes, 2, maxBridges, diagonal, obstacles) === 1;
+  }
+
+  /**
+   * Cables the player placed that no known solution agrees with: a pair carrying more
+   * cables than every solution gives it. Pairs with too few cables are just unfinished.
+   */
+  public static findContradictions(currentEdges: EdgeData[], solutions: EdgeData[][]): EdgeData[] {
+    const solutionCounts = solutions.map(edges => {
+      const counts = new Map<string, number>();
+      edges.forEach(e => counts.set(this.pairKey(e.nodeA, e.nodeB), e.count));
+      return counts;
+    });
+
+    return currentEdges.filter(edge => {
+      const key = this.pairKey(edge.nodeA, edge.nodeB);
+      return solutionCounts.every(counts => edge.count > (counts.get(key) || 0));
+    });
+  }
+
+  // --- Internals ---
+
+  private static pairKey(idA: string, idB: string): string {
+    return idA < idB ? `${idA}-${idB}` : `${idB}-${idA}`;
+  }
+
+  private static search(ctx: SolverContext, state: SolverState) {
+    if (ctx.solutions.length >= ctx.maxSolutions) return;
+    if (++ctx.steps > ctx.maxSteps) throw new SolverBudgetError(ctx.maxSteps);
+    if (!this.propagate(ctx.graph, state)) return;
+    // Even every cable still possible can't carry the plant's power to all houses
+    if (ctx.capacity > 0 && !PowerFlow.suppliesAll(ctx.graph.nodes, ctx.graph.toEdges(state.hi), ctx.capacity)) return;
+
+    // Branch on the open bridge with the fewest remaining options
+    let branch = -1;
+    for (let i = 0; i < ctx.graph.bridges.length; i++) {
+      if (state.lo[i] === state.hi[i]) continue;
+      if (branch === -1 || state.hi[i] - state.lo[i] < state.hi[branch] - state.lo[branch]) {
+        branch = i;
+      }
+    }
+
+    if (branch === -1) {
+      if (ctx.graph.isConnected(state.lo)) {
+        ctx.solutions.push(ctx.graph.toEdges(state.lo));
+      }
+      return;
+    }
+
+    for (let count = state.hi[branch]; count >= state.lo[branch]; count--) {
+      const next: SolverState = { lo: state.lo.slice(), hi: state.hi.slice() };
+      next.lo[branch] = count;
+      next.hi[branch] = count;
+      this.search(ctx, next);
+      if (ctx.solutions.length >= ctx.maxSolutions) return;
+    }
+  }
+
+  /**
+   * Tightens the bounds until nothing changes. Returns false on a contradiction.
+   */
+  private static propagate(graph: BridgeGraph, state: SolverState): boolean {
+    const { lo, hi } = state;
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+
+      // Node totals: each bridge must cover what the others can't, and can't exceed what's left
+      for (let n = 0; n < graph.nodes.length; n++) {
+        const required = graph.nodes[n].requiredConnections;
+        const touching = graph.nodeBridges[n];
+        let sumLo = 0;
+        let sumHi = 0;
+        for (const b of touching) {
+          sumLo += lo[b];
+          sumHi += hi[b];
+        }
+        if (sumLo > required || sumHi < required) return false;
+
+        for (const b of touching) {
+          const newLo = Math.max(lo[b], required - (sumHi - hi[b]));
+          const newHi = Math.min(hi[b], required - (sumLo - lo[b]));
+          if (newLo > newHi) return false;
+          if (newLo !== lo[b] || newHi !== hi[b]) {
+            sumLo += newLo - lo[b];
+            sumHi += newHi - hi[b];
+            lo[b] = newLo;
+            hi[b] = newHi;
+            changed = true;
+          }
+        }
+      }
+
+      // Placed cables block every bridge that would cross them
+      for (let b = 0; b < graph.bridges.length; b++) {
+        if (lo[b] === 0) continue;
+        for (const c of graph.bridges[b].crossings) {
+          if (lo[c] > 0) return false;
+          if (hi[c] > 0) {
+            hi[c] = 0;
+            changed = true;
+          }
+        }
+      }
+    }
+
+    // Everything must still be able to join up, and no finished group may be cut off
+    return graph.isConnected(hi) && !graph.hasClosedIsland(lo);
+  }
+}
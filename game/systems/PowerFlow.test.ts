@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { NodeData } from '../../types';
+import { PowerFlow } from './PowerFlow';
+
+// A house at (x, y) that wants `required` cables
+const house = (id: string, x: number, y: number, required: number): NodeData =>
+  ({ id, x, y, requiredConnections: required, currentConnections: 0 });
+
+describe('PowerFlow', () => {
+  it('puts the plant on the biggest number, the first in reading order on a tie', () => {
+    expect(PowerFlow.findPlant([house('a', 0, 2, 3), house('b', 2, 0, 1), house('c', 1, 1, 3)])?.id).toBe('c');
+    expect(PowerFlow.findPlant([])).toBeNull();
+  });
+
+  it('counts a double cable as twice the capacity', () => {
+    // Plant b feeds c and d through b-c
+    const nodes = [house('a', 0, 0, 1), house('b', 2, 0, 3), house('c', 4, 0, 3), house('d', 4, 2, 1)];
+    const edges = (count: number) => [{ nodeA: 'a', nodeB: 'b', count: 1 }, { nodeA: 'b', nodeB: 'c', count }, { nodeA: 'c', nodeB: 'd', count: 1 }];
+    expect(PowerFlow.suppliesAll(nodes, edges(1), 1)).toBe(false);
+    expect(PowerFlow.suppliesAll(nodes, edges(2), 1)).toBe(true);
+  });
+
+  it('lights only houses joined to the plant through finished houses', () => {
+    const nodes = [house('a', 0, 0, 1), house('b', 2, 0, 2), house('c', 4, 0, 1)];
+    const powered = PowerFlow.getPowered(nodes, [{ nodeA: 'a', nodeB: 'b', count: 1 }], 'b');
+    expect([...powered]).toEqual(['b']);
+    expect(PowerFlow.getPowered(nodes, [{ nodeA: 'a', nodeB: 'b', count: 1 }, { nodeA: 'b', nodeB: 'c', count: 1 }], 'b').size).toBe(3);
+  });
+});
@@ -0,0 +1,115 @@
+import { EdgeData, NodeData } from '../../types';
+
+/**
+ * The power-flow rule: one house is the power plant, every other house draws one unit of
+ * power from it, and a pair joined by k cables carries at most k x capacity units. A board
+ * under the rule is only solved once the plant can supply every house that way. While the
+ * player works, houses light up as finished parts of the network reach the plant.
+ */
+export class PowerFlow {
+  /**
+   * The plant: the house with the biggest number, the first in reading order on a tie.
+   * Depends only on the board, so generated, pasted and resumed boards agree.
+   */
+  public static findPlant(nodes: NodeData[]): NodeData | null {
+    let plant: NodeData | null = null;
+    for (const node of nodes) {
+      if (!plant ||
+          node.requiredConnections > plant.requiredConnections ||
+          (node.requiredConnections === plant.requiredConnections && (node.y < plant.y || (node.y === plant.y && node.x < plant.x)))) {
+        plant = node;
+      }
+    }
+    return plant;
+  }
+
+  /**
+   * Whether the plant can send one unit to every other house without any pair carrying
+   * more than its cables allow: a max flow from the plant, each house draining one unit.
+   */
+  public static suppliesAll(nodes: NodeData[], edges: EdgeData[], capacity: number): boolean {
+    const plant = this.findPlant(nodes);
+    if (!plant) return true;
+
+    const index = new Map(nodes.map((n, i) => [n.id, i]));
+    const sink = nodes.length;
+    // Residual capacities; cables carry power either way
+    const residual = Array.from({ length: nodes.length + 1 }, () => new Map<number, number>());
+    const addCapacity = (from: number, to: number, amount: number) => {
+      residual[from].set(to, (residual[from].get(to) || 0) + amount);
+      if (!residual[to].has(from)) residual[to].set(from, 0);
+    };
+    edges.forEach(e => {
+      const a = index.get(e.nodeA);
+      const b = index.get(e.nodeB);
+      if (a === undefined || b === undefined) return;
+      addCapacity(a, b, e.count * capacity);
+      addCapacity(b, a, e.count * capacity);
+    });
+    const source = index.get(plant.id)!;
+    nodes.forEach((_, i) => {
+      if (i !== source) addCapacity(i, sink, 1);
+    });
+
+    // Each house drains a single unit, so every augmenting path carries exactly one
+    let delivered = 0;
+    while (delivered < nodes.length - 1) {
+      const previous = new Map<number, number>([[source, source]]);
+      const queue = [source];
+      while (queue.length > 0 && !previous.has(sink)) {
+        const curr = queue.shift()!;
+        residual[curr].forEach((left, next) => {
+          if (left > 0 && !previous.has(next)) {
+            previous.set(next, curr);
+            queue.push(next);
+          }
+        });
+      }
+      if (!previous.has(sink)) return false;
+
+      for (let node = sink; node !== source; node = previous.get(node)!) {
+        const from = previous.get(node)!;
+        residual[from].set(node, residual[from].get(node)! - 1);
+        residual[node].set(from, residual[node].get(from)! + 1);
+      }
+      delivered++;
+    }
+    return true;
+  }
+
+  /**
+   * IDs of the houses reached from the plant (BFS) through cables between houses that have
+   * exactly their number of cables. The plant is always powered itself.
+   */
+  public static getPowered(nodes: NodeData[], edges: EdgeData[], plantId: string): Set<string> {
+    const cables = new Map<string, number>();
+    edges.forEach(e => {
+      cables.set(e.nodeA, (cables.get(e.nodeA) || 0) + e.count);
+      cables.set(e.nodeB, (cables.get(e.nodeB) || 0) + e.count);
+    });
+    const satisfied = new Set(nodes.filter(n => (cables.get(n.id) || 0) === n.requiredConnections).map(n => n.id));
+
+    // Only cables between two satisfied houses carry power
+    const adj = new Map<string, string[]>();
+    edges.forEach(e => {
+      if (!satisfied.has(e.nodeA) || !satisfied.has(e.nodeB)) return;
+      if (!adj.has(e.nodeA)) adj.set(e.nodeA, []);
+      if (!adj.has(e.nodeB)) adj.set(e.nodeB, []);
+      adj.get(e.nodeA)!.push(e.nodeB);
+      adj.get(e.nodeB)!.push(e.nodeA);
+    });
+
+    const powered = new Set([plantId]);
+    const queue = [plantId];
+    while (queue.length > 0) {
+      const curr = queue.shift()!;
+      for (const next of adj.get(curr) || []) {
+        if (!powered.has(next)) {
+          powered.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    return powered;
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { EdgeData, NodeData } from '../../types';
+import { PuzzleFile, PuzzleFormat } from './PuzzleFormat';
+
+// An island at (x, y) that wants `required` bridges
+const island = (id: string, x: number, y: number, required: number): NodeData =>
+  ({ id, x, y, requiredConnections: required, currentConnections: 0 });
+
+// 5x3: a=b across the top, a|c down the left, with an obstacle in the middle
+const sample = (): PuzzleFile => ({
+  width: 5,
+  height: 3,
+  maxBridges: 2,
+  diagonal: false,
+  obstacles: [{ x: 2, y: 1 }],
+  nodes: [island('n_0', 0, 0, 3), island('n_1', 4, 0, 2), island('n_2', 0, 2, 1)],
+  edges: [{ nodeA: 'n_0', nodeB: 'n_1', count: 2 }, { nodeA: 'n_0', nodeB: 'n_2', count: 1 }],
+});
+
+// Board as parse() reads it back, without the runtime-only connection counts
+const shape = (puzzle: PuzzleFile) => ({
+  ...puzzle,
+  nodes: puzzle.nodes.map(n => ({ ...n, currentConnections: 0 })),
+});
+
+const json = (fields: Record<string, unknown>) =>
+  JSON.stringify({ format: 'themed-hashi', version: 1, width: 5, height: 3, nodes: [{ id: 'a', x: 0, y: 0, requiredConnections: 1 }, { id: 'b', x: 4, y: 0, requiredConnections: 1 }], ...fields });
+
+describe('PuzzleFormat', () => {
+  describe('round trips', () => {
+    it('reads back its own text', () => {
+      const text = PuzzleFormat.export(sample(), 'text', true);
+      expect(text).toBe(['3===2', '|.#..', '1....'].join('\n'));
+      expect(PuzzleFormat.parse(text)).toEqual(shape(sample()));
+    });
+
+    it('reads back its own JSON', () => {
+      const puzzle = { ...sample(), maxBridges: 3, diagonal: true, capacity: 5 };
+      expect(PuzzleFormat.parse(PuzzleFormat.export(puzzle, 'json', true))).toEqual(shape(puzzle));
+    });
+
+    it('writes the rule lines above the grid', () => {
+      const text = PuzzleFormat.export({ ...sample(), maxBridges: 1, edges: [], diagonal: true, capacity: 4 }, 'text', false);
+      expect(text.split('\n').slice(0, 3)).toEqual(['bridges: 1', 'diagonal: yes', 'capacity: 4']);
+      expect(PuzzleFormat.parse(text)).toMatchObject({ maxBridges: 1, diagonal: true, capacity: 4, edges: [] });
+    });
+
+    it('falls back to JSON for bridges text has no cell or symbol for', () => {
+      const adjacent: PuzzleFile = { ...sample(), nodes: [island('n_0', 0, 0, 1), island('n_1', 1, 0, 1)], edges: [{ nodeA: 'n_0', nodeB: 'n_1', count: 1 }], obstacles: [] };
+      const diagonal: PuzzleFile = { ...sample(), diagonal: true, nodes: [island('n_0', 0, 0, 1), island('n_1', 2, 2, 1)], edges: [{ nodeA: 'n_0', nodeB: 'n_1', count: 1 }], obstacles: [] };
+      for (const puzzle of [adjacent, diagonal]) {
+        const exported = PuzzleFormat.export(puzzle, 'text', true);
+        expect(exported.startsWith('{')).toBe(true);
+        expect(PuzzleFormat.parse(exported)).toEqual(shape(puzzle));
+      }
+    });
+  });
+
+  describe('malformed text', () => {
+    it.each([
+      ['an empty input', '   ', 'Nothing to import.'],
+      ['a grid without islands', '...\n.#.', 'The puzzle has no islands.'],
+      ['an unknown character', '1.x.1', 'Unexpected character "x" at row 1, column 3.'],
+      ['an unknown rule', 'colour: red\n1-1', 'Unknown rule "colour".'],
+      ['a bridge rule of zero', 'bridges: 0\n1-1', 'The bridge rule must allow between 1 and 3 bridges per pair.'],
+      ['a bridge rule above the range', 'bridges: 4\n1-1', 'The bridge rule must allow between 1 and 3 bridges per pair.'],
+      ['a capacity below the range', 'capacity: 1\n1-1', 'The capacity rule must let one cable supply between 3 and 8 houses.'],
+      ['a bridge over its rule', 'bridges: 1\n2=2', 'Bridge starting at row 1, column 1 has more than 1 per pair.'],
+      ['a bridge running off the grid', '1--', "Bridge starting at row 1, column 1 doesn't end at an island."],
+      ['a loose bridge symbol', '1.1\n.|.', "Bridge at row 2, column 2 isn't attached to an island."],
+    ])('rejects %s', (_, input, message) => {
+      expect(() => PuzzleFormat.parse(input)).toThrow(message);
+    });
+  });
+
+  describe('malformed JSON', () => {
+    const edge = (nodeA: string, nodeB: string, count = 1): EdgeData => ({ nodeA, nodeB, count });
+
+    it.each([
+      ['unreadable JSON', '{ nope', 'The JSON could not be read.'],
+      ['another format', JSON.stringify({ format: 'other', version: 1 }), 'Unknown puzzle format or version.'],
+      ['a zero width', json({ width: 0 }), 'The puzzle needs a positive width and height.'],
+      ['no islands', json({ nodes: [] }), 'The puzzle has no islands.'],
+      ['an island off the grid', json({ nodes: [{ id: 'a', x: 5, y: 0, requiredConnections: 1 }] }), 'Island "a" is outside the grid.'],
+      ['a bridge rule of zero', json({ maxBridges: 0 }), 'The bridge rule must allow between 1 and 3 bridges per pair.'],
+      ['a bridge rule above the range', json({ maxBridges: 9 }), 'The bridge rule must allow between 1 and 3 bridges per pair.'],
+      ['a capacity above the range', json({ capacity: 9 }), 'The capacity rule must let one cable supply between 3 and 8 houses.'],
+      ['a bridge over its rule', json({ edges: [edge('a', 'b', 3)] }), 'Bridge counts must be between 1 and 2.'],
+      ['a bridge to an unknown island', json({ edges: [edge('a', 'z')] }), 'A bridge refers to an unknown island.'],
+      ['the same pair listed twice', json({ edges: [edge('a', 'b'), edge('b', 'a')] }), 'The islands "b" and "a" are listed with more than one bridge entry.'],
+      ['a bridge over an obstacle', json({ obstacles: [{ x: 2, y: 0 }], edges: [edge('a', 'b')] }), `The bridge between "a" and "b" isn't a straight, unobstructed line.`],
+    ])('rejects %s', (_, input, message) => {
+      expect(() => PuzzleFormat.parse(input)).toThrow(message);
+    });
+  });
+});
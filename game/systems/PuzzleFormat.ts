@@ -0,0 +1,343 @@
+import { CAPACITY_RANGE, DEFAULT_MAX_BRIDGES, EdgeData, GridPoint, MAX_BRIDGES_RANGE, NodeData } from '../../types';
+import { BoardState } from '../model/BoardState';
+import { GridGeometry } from './GridGeometry';
+
+export type PuzzleFormatType = 'text' | 'json';
+
+// A board read from (or written to) text: the islands plus any cables already placed
+export interface PuzzleFile {
+  width: number;
+  height: number;
+  maxBridges: number; // Cables allowed between one pair of islands
+  diagonal?: boolean; // Bridges may also run along 45° diagonals
+  obstacles?: GridPoint[]; // Cells no bridge may pass over
+  capacity?: number; // Houses one cable can supply under the power-flow rule
+  nodes: NodeData[];
+  edges: EdgeData[];
+}
+
+// JSON layout, derived from NodeData / EdgeData without the runtime-only fields
+interface PuzzleJson {
+  format: 'themed-hashi';
+  version: 1;
+  width: number;
+  height: number;
+  maxBridges?: number; // Absent for the classic two
+  diagonal?: boolean;
+  obstacles?: GridPoint[];
+  capacity?: number;
+  nodes: { id: string; x: number; y: number; requiredConnections: number }[];
+  edges?: EdgeData[];
+}
+
+const EMPTY = '.';
+const OBSTACLE = '#';
+const HORIZONTAL: Record<string, number> = { '-': 1, '=': 2, '≡': 3 };
+const VERTICAL: Record<string, number> = { '|': 1, '"': 2, '⦀': 3 };
+const HEADER = /^(\w+)\s*:\s*(\S+)$/; // "name: value" rule lines above the grid
+
+/**
+ * Reads and writes boards in two formats:
+ *
+ * Text, the usual notation for published Hashi puzzles. One line per grid row:
+ *   1-9   island with that many required connections
+ *   . or space   empty cell
+ *   #     obstacle, which no bridge may pass over
+ *   - = ≡   single / double / triple horizontal bridge
+ *   | " ⦀   single / double / triple vertical bridge
+ * Variant rules go in lines above the grid: "bridges: N" for other than two per pair,
+ * "diagonal: yes" for the diagonal variant, "capacity: N" for the power-flow rule. Diagonal bridges have no symbol, and a bridge
+ * between side-by-side islands has no cell to be drawn in, so boards showing either are
+ * exported as JSON.
+ *
+ * JSON, a direct dump of the nodes and (optionally) the placed edges.
+ */
+export class PuzzleFormat {
+  public static export(puzzle: PuzzleFile, format: PuzzleFormatType, includeEdges: boolean): string {
+    const edges = includeEdges ? puzzle.edges : [];
+    return format === 'json' || !this.fitsText({ ...puzzle, edges })
+      ? this.toJson({ ...puzzle, edges })
+      : this.toText({ ...puzzle, edges });
+  }
+
+  /**
+   * Text cells hold one digit and one straight bridge symbol, so bigger islands, diagonal
+   * bridges and bridges with no cell between their islands only fit JSON.
+   */
+  public static fitsText(puzzle: PuzzleFile): boolean {
+    const byId = new Map(puzzle.nodes.map(n => [n.id, n]));
+    return puzzle.nodes.every(n => n.requiredConnections <= 9) && puzzle.edges.every(e => {
+      const a = byId.get(e.nodeA);
+      const b = byId.get(e.nodeB);
+      return !!a && !!b && GridGeometry.isAligned(a, b) && Math.abs(a.x - b.x) + Math.abs(a.y - b.y) > 1;
+    });
+  }
+
+  /**
+   * Parses either format, detected from the first character. Throws an Error with a
+   * player-readable message when the input is malformed.
+   */
+  public static parse(input: string): PuzzleFile {
+    const trimmed = input.trim();
+    if (trimmed.length === 0) throw new Error("Nothing to import.");
+    return trimmed.startsWith('{') ? this.fromJson(trimmed) : this.fromText(input);
+  }
+
+  // --- Text ---
+
+  // Assumes fitsText(puzzle); export() falls back to JSON otherwise
+  public static toText(puzzle: PuzzleFile): string {
+    const grid: string[][] = Array.from({ length: puzzle.height }, () => Array(puzzle.width).fill(EMPTY));
+
+    puzzle.nodes.forEach(n => {
+      grid[n.y][n.x] = n.requiredConnections.toString();
+    });
+    puzzle.obstacles?.forEach(p => {
+      grid[p.y][p.x] = OBSTACLE;
+    });
+
+    const byId = new Map(puzzle.nodes.map(n => [n.id, n]));
+    puzzle.edges.forEach(e => {
+      const a = byId.get(e.nodeA);
+      const b = byId.get(e.nodeB);
+      if (!a || !b) return;
+
+      if (a.y === b.y) {
+        const symbol = this.symbolFor(HORIZONTAL, e.count);
+        for (let x = Math.min(a.x, b.x) + 1; x < Math.max(a.x, b.x); x++) grid[a.y][x] = symbol;
+      } else {
+        const symbol = this.symbolFor(VERTICAL, e.count);
+        for (let y = Math.min(a.y, b.y) + 1; y < Math.max(a.y, b.y); y++) grid[y][a.x] = symbol;
+      }
+    });
+
+    const rows = grid.map(row => row.join(''));
+    if (puzzle.capacity) rows.unshift(`capacity: ${puzzle.capacity}`);
+    if (puzzle.diagonal) rows.unshift('diagonal: yes');
+    if (puzzle.maxBridges !== DEFAULT_MAX_BRIDGES) rows.unshift(`bridges: ${puzzle.maxBridges}`);
+    return rows.join('\n');
+  }
+
+  private static symbolFor(symbols: Record<string, number>, count: number): string {
+    return Object.keys(symbols).find(symbol => symbols[symbol] === count) ?? EMPTY;
+  }
+
+  public static fromText(input: string): PuzzleFile {
+    // Drop blank lines around the grid, keep blank lines inside it
+    const lines = input.replace(/\r/g, '').split('\n').map(line => line.replace(/\s+$/, ''));
+    while (lines.length > 0 && lines[0] === '') lines.shift();
+    while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+
+    // Optional rule lines above the grid
+    let maxBridges = DEFAULT_MAX_BRIDGES;
+    let diagonal = false;
+    let capacity = 0;
+    let header: RegExpExecArray | null;
+    while (lines.length > 0 && (header = HEADER.exec(lines[0].trim()))) {
+      const [, name, value] = header;
+      if (name.toLowerCase() === 'bridges') {
+        maxBridges = this.readMaxBridges(Number(value));
+      } else if (name.toLowerCase() === 'diagonal') {
+        diagonal = /^(yes|true)$/i.test(value);
+      } else if (name.toLowerCase() === 'capacity') {
+        capacity = this.readCapacity(Number(value));
+      } else {
+        throw new Error(`Unknown rule "${name}".`);
+      }
+      lines.shift();
+      while (lines.length > 0 && lines[0] === '') lines.shift();
+    }
+
+    const height = lines.length;
+    const width = Math.max(0, ...lines.map(line => line.length));
+    const cell = (x: number, y: number) => lines[y]?.[x] ?? ' ';
+
+    // 1. Islands, in reading order, and obstacles
+    const nodes: NodeData[] = [];
+    const obstacles: GridPoint[] = [];
+    const nodeAt = new Map<string, NodeData>();
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const c = cell(x, y);
+        if (c >= '1' && c <= '9') {
+          const node = { id: `n_${nodes.length}`, x, y, requiredConnections: Number(c), currentConnections: 0 };
+          nodes.push(node);
+          nodeAt.set(`${x},${y}`, node);
+        } else if (c === OBSTACLE) {
+          obstacles.push({ x, y });
+        } else if (c !== EMPTY && c !== ' ' && !(c in HORIZONTAL) && !(c in VERTICAL)) {
+          throw new Error(`Unexpected character "${c}" at row ${y + 1}, column ${x + 1}.`);
+        }
+      }
+    }
+    if (nodes.length === 0) throw new Error("The puzzle has no islands.");
+
+    // 2. Bridges, followed from the island on their left / top
+    const edges: EdgeData[] = [];
+    const covered = new Set<string>();
+    const follow = (start: NodeData, dx: number, dy: number, symbols: Record<string, number>) => {
+      const symbol = cell(start.x + dx, start.y + dy);
+      if (!(symbol in symbols)) return;
+
+      let x = start.x + dx;
+      let y = start.y + dy;
+      while (cell(x, y) === symbol) {
+        covered.add(`${x},${y}`);
+        x += dx;
+        y += dy;
+      }
+
+      const end = nodeAt.get(`${x},${y}`);
+      if (!end) throw new Error(`Bridge starting at row ${start.y + 1}, column ${start.x + 1} doesn't end at an island.`);
+      if (symbols[symbol] > maxBridges) {
+        throw new Error(`Bridge starting at row ${start.y + 1}, column ${start.x + 1} has more than ${maxBridges} per pair.`);
+      }
+      edges.push({ nodeA: start.id, nodeB: end.id, count: symbols[symbol] });
+    };
+    nodes.forEach(n => {
+      follow(n, 1, 0, HORIZONTAL);
+      follow(n, 0, 1, VERTICAL);
+    });
+
+    // Any bridge symbol not reached above is dangling
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const c = cell(x, y);
+        if ((c in HORIZONTAL || c in VERTICAL) && !covered.has(`${x},${y}`)) {
+          throw new Error(`Bridge at row ${y + 1}, column ${x + 1} isn't attached to an island.`);
+        }
+      }
+    }
+
+    const puzzle: PuzzleFile = { width, height, maxBridges, diagonal, obstacles, nodes, edges };
+    if (capacity > 0) puzzle.capacity = capacity;
+    return puzzle;
+  }
+
+  // --- JSON ---
+
+  public static toJson(puzzle: PuzzleFile): string {
+    const data: PuzzleJson = {
+      format: 'themed-hashi',
+      version: 1,
+      width: puzzle.width,
+      height: puzzle.height,
+      nodes: puzzle.nodes.map(n => ({ id: n.id, x: n.x, y: n.y, requiredConnections: n.requiredConnections })),
+    };
+    if (puzzle.maxBridges !== DEFAULT_MAX_BRIDGES) data.maxBridges = puzzle.maxBridges;
+    if (puzzle.diagonal) data.diagonal = true;
+    if (puzzle.capacity) data.capacity = puzzle.capacity;
+    if (puzzle.obstacles && puzzle.obstacles.length > 0) {
+      data.obstacles = puzzle.obstacles.map(p => ({ x: p.x, y: p.y }));
+    }
+    if (puzzle.edges.length > 0) {
+      data.edges = puzzle.edges.map(e => ({ nodeA: e.nodeA, nodeB: e.nodeB, count: e.count }));
+    }
+    return JSON.stringify(data, null, 2);
+  }
+
+  public static fromJson(input: string): PuzzleFile {
+    let data: PuzzleJson;
+    try {
+      data = JSON.parse(input);
+    } catch (e) {
+      throw new Error("The JSON could not be read.");
+    }
+
+    if (!this.isObject(data) || data.format !== 'themed-hashi' || data.version !== 1) throw new Error("Unknown puzzle format or version.");
+    if (!Number.isInteger(data.width) || !Number.isInteger(data.height) || data.width < 1 || data.height < 1) {
+      throw new Error("The puzzle needs a positive width and height.");
+    }
+    if (!Array.isArray(data.nodes) || data.nodes.length === 0) throw new Error("The puzzle has no islands.");
+    if (!data.nodes.every(n => this.isObject(n))) throw new Error("Every island must be an object.");
+    if (data.obstacles !== undefined && (!Array.isArray(data.obstacles) || !data.obstacles.every(p => this.isObject(p)))) {
+      throw new Error("Obstacles must be a list of cells.");
+    }
+    if (data.edges !== undefined && (!Array.isArray(data.edges) || !data.edges.every(e => this.isObject(e)))) {
+      throw new Error("Bridges must be a list of objects.");
+    }
+    const maxBridges = this.readMaxBridges(data.maxBridges ?? DEFAULT_MAX_BRIDGES);
+    const diagonal = data.diagonal === true;
+    const capacity = data.capacity === undefined ? 0 : this.readCapacity(data.capacity);
+
+    const ids = new Set<string>();
+    const positions = new Set<string>();
+    const nodes: NodeData[] = data.nodes.map(n => {
+      if (typeof n.id !== 'string' || ids.has(n.id)) throw new Error(`Island IDs must be unique strings.`);
+      if (!Number.isInteger(n.x) || !Number.isInteger(n.y) || n.x < 0 || n.y < 0 || n.x >= data.width || n.y >= data.height) {
+        throw new Error(`Island "${n.id}" is outside the grid.`);
+      }
+      if (positions.has(`${n.x},${n.y}`)) throw new Error(`Two islands share the cell ${n.x},${n.y}.`);
+      if (!Number.isInteger(n.requiredConnections) || n.requiredConnections < 1) {
+        throw new Error(`Island "${n.id}" needs a positive number of connections.`);
+      }
+      ids.add(n.id);
+      positions.add(`${n.x},${n.y}`);
+      return { id: n.id, x: n.x, y: n.y, requiredConnections: n.requiredConnections, currentConnections: 0 };
+    });
+
+    const obstacles: GridPoint[] = (data.obstacles ?? []).map(p => {
+      if (!Number.isInteger(p.x) || !Number.isInteger(p.y) || p.x < 0 || p.y < 0 || p.x >= data.width || p.y >= data.height) {
+        throw new Error(`An obstacle is outside the grid.`);
+      }
+      if (positions.has(`${p.x},${p.y}`)) throw new Error(`The cell ${p.x},${p.y} holds more than one island or obstacle.`);
+      positions.add(`${p.x},${p.y}`);
+      return { x: p.x, y: p.y };
+    });
+
+    const pairs = new Set<string>();
+    const edges: EdgeData[] = (data.edges ?? []).map(e => {
+      if (!ids.has(e.nodeA) || !ids.has(e.nodeB)) throw new Error(`A bridge refers to an unknown island.`);
+      const pair = BoardState.getEdgeKey(e.nodeA, e.nodeB);
+      if (pairs.has(pair)) throw new Error(`The islands "${e.nodeA}" and "${e.nodeB}" are listed with more than one bridge entry.`);
+      pairs.add(pair);
+      if (!Number.isInteger(e.count) || e.count < 1 || e.count > maxBridges) {
+        throw new Error(maxBridges === 1 ? `Bridge counts must be 1.` : `Bridge counts must be between 1 and ${maxBridges}.`);
+      }
+      return { nodeA: e.nodeA, nodeB: e.nodeB, count: e.count };
+    });
+    this.validateEdges(nodes, edges, diagonal, obstacles);
+
+    const puzzle: PuzzleFile = { width: data.width, height: data.height, maxBridges, diagonal, obstacles, nodes, edges };
+    if (capacity > 0) puzzle.capacity = capacity;
+    return puzzle;
+  }
+
+  // The same range the editor and custom settings offer
+  private static readMaxBridges(value: number): number {
+    const [min, max] = MAX_BRIDGES_RANGE;
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`The bridge rule must allow between ${min} and ${max} bridges per pair.`);
+    }
+    return value;
+  }
+
+  private static readCapacity(value: number): number {
+    const [min, max] = CAPACITY_RANGE;
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`The capacity rule must let one cable supply between ${min} and ${max} houses.`);
+    }
+    return value;
+  }
+
+  private static isObject(value: unknown): value is object {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  // Same rules as BoardState.canConnect: straight, unobstructed and not crossing
+  private static validateEdges(nodes: NodeData[], edges: EdgeData[], diagonal: boolean, obstacles: GridPoint[]) {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const ends = edges.map(e => [byId.get(e.nodeA)!, byId.get(e.nodeB)!]);
+
+    ends.forEach(([a, b], i) => {
+      if (a === b || !GridGeometry.isAligned(a, b, diagonal) || GridGeometry.isNodeBetween(a, b, nodes) || GridGeometry.isObstacleBetween(a, b, obstacles)) {
+        throw new Error(`The bridge between "${a.id}" and "${b.id}" isn't a straight, unobstructed line.`);
+      }
+      for (let j = i + 1; j < ends.length; j++) {
+        if (GridGeometry.linesCross(a, b, ends[j][0], ends[j][1])) {
+          throw new Error(`The bridges "${a.id}"-"${b.id}" and "${ends[j][0].id}"-"${ends[j][1].id}" cross.`);
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { CUSTOM_DIFFICULTY_DEFAULT, CUSTOM_DIFFICULTY_LIMITS, CustomDifficulty, Difficulty, DifficultyConfig, MAX_BRIDGES_RANGE, PuzzleData } from '../../types';
+import { DisjointSet } from './DisjointSet';
+import { GridGeometry } from './GridGeometry';
+import { HashiSolver } from './HashiSolver';
+import { PowerFlow } from './PowerFlow';
+import { PuzzleGenerator } from './PuzzleGenerator';
+import { SeededRandom } from './SeededRandom';
+
+// Seeds per stress run: a quick pass in npm test, 1000 with npm run test:stress (or set STRESS_SEEDS)
+const STRESS_SEEDS = Number(process.env.STRESS_SEEDS) || 25;
+
+// Random custom boards stay at or below this size, so the stress run doesn't drag the suite out
+const MAX_STRESS_SIZE = 9;
+
+/**
+ * Everything a generated board promises, checked against its solution: straight cables that
+ * neither cross nor pass over a house or obstacle, one network, numbers that add up and,
+ * under the power-flow rule, a plant that can supply every house.
+ */
+function expectValidPuzzle(puzzle: PuzzleData, settings: DifficultyConfig) {
+  const { nodes, solutionEdges: edges, maxBridges } = puzzle;
+  const diagonal = !!puzzle.diagonal;
+  const obstacles = puzzle.obstacles ?? [];
+  const byId = new Map(nodes.map(n => [n.id, n]));
+
+  // On the grid, one house per point, never on an obstacle
+  const cells = new Set<string>();
+  for (const n of nodes) {
+    expect(n.x >= 0 && n.x < puzzle.width && n.y >= 0 && n.y < puzzle.height).toBe(true);
+    cells.add(`${n.x},${n.y}`);
+  }
+  expect(cells.size).toBe(nodes.length);
+  expect(obstacles.some(p => cells.has(`${p.x},${p.y}`))).toBe(false);
+
+  for (const e of edges) {
+    const a = byId.get(e.nodeA)!;
+    const b = byId.get(e.nodeB)!;
+    expect(a && b).toBeTruthy();
+    expect(e.count).toBeGreaterThanOrEqual(1);
+    expect(e.count).toBeLessThanOrEqual(maxBridges);
+
+    // No pass-through
+    expect(GridGeometry.isAligned(a, b, diagonal)).toBe(true);
+    expect(GridGeometry.isNodeBetween(a, b, nodes)).toBe(false);
+    expect(GridGeometry.isObstacleBetween(a, b, obstacles)).toBe(false);
+  }
+
+  // No crossing edges
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      const p = edges[i];
+      const q = edges[j];
+      expect(GridGeometry.linesCross(byId.get(p.nodeA)!, byId.get(p.nodeB)!, byId.get(q.nodeA)!, byId.get(q.nodeB)!)).toBe(false);
+    }
+  }
+
+  // Counts match the solution and stay within maxConnections
+  const totals = new Map<string, number>();
+  edges.forEach(e => {
+    totals.set(e.nodeA, (totals.get(e.nodeA) || 0) + e.count);
+    totals.set(e.nodeB, (totals.get(e.nodeB) || 0) + e.count);
+  });
+  for (const n of nodes) {
+    expect(n.requiredConnections).toBeGreaterThanOrEqual(1);
+    expect(n.requiredConnections).toBeLessThanOrEqual(settings.maxConnections);
+    expect(totals.get(n.id) || 0).toBe(n.requiredConnections);
+  }
+
+  // All nodes connected
+  const index = new Map(nodes.map((n, i) => [n.id, i]));
+  const network = new DisjointSet(nodes.length);
+  edges.forEach(e => network.union(index.get(e.nodeA)!, index.get(e.nodeB)!));
+  expect(network.count).toBe(1);
+
+  if (puzzle.capacity) expect(PowerFlow.suppliesAll(nodes, edges, puzzle.capacity)).toBe(true);
+}
+
+describe('PuzzleGenerator', () => {
+  describe.each([Difficulty.EASY, Difficulty.MEDIUM, Difficulty.HARD])('%s boards', difficulty => {
+    const settings = PuzzleGenerator.getSettings(difficulty);
+
+    it.each(['K7QF3M', 'TEST01', 'ABCDEF'])('are valid and unique for seed %s', seed => {
+      const puzzle = PuzzleGenerator.generate(difficulty, seed);
+      expectValidPuzzle(puzzle, settings);
+      expect(puzzle.width).toBe(settings.width);
+      expect(puzzle.height).toBe(settings.height);
+      expect(HashiSolver.countSolutions(puzzle.nodes, 2, puzzle.maxBridges, !!puzzle.diagonal, puzzle.obstacles ?? [])).toBe(1);
+    });
+  });
+
+  it('gives the same board for the same seed', () => {
+    const first = PuzzleGenerator.generate(Difficulty.MEDIUM, 'REPEAT');
+    const second = PuzzleGenerator.generate(Difficulty.MEDIUM, 'REPEAT');
+    expect(second).toEqual(first);
+  });
+
+  it.each<[string, CustomDifficulty]>([
+    ['rectangular', { width: 9, height: 5, nodeCount: [8, 12], maxConnections: 6, maxBridges: 2, diagonal: false, obstacles: 0, capacity: 0 }],
+    ['single-bridge', { width: 6, height: 6, nodeCount: [6, 10], maxConnections: 4, maxBridges: 1, diagonal: false, obstacles: 2, capacity: 0 }],
+    ['triple-bridge', { width: 7, height: 7, nodeCount: [8, 12], maxConnections: 8, maxBridges: 3, diagonal: false, obstacles: 2, capacity: 0 }],
+    ['diagonal', { width: 7, height: 7, nodeCount: [8, 12], maxConnections: 6, maxBridges: 2, diagonal: true, obstacles: 3, capacity: 0 }],
+    ['power-flow', { width: 8, height: 8, nodeCount: [8, 12], maxConnections: 6, maxBridges: 2, diagonal: false, obstacles: 2, capacity: 4 }],
+  ])('builds valid %s custom boards', (_, custom) => {
+    const settings = PuzzleGenerator.getSettings(Difficulty.MEDIUM, custom);
+    const puzzle = PuzzleGenerator.generate(Difficulty.MEDIUM, 'CUSTOM', custom);
+    expectValidPuzzle(puzzle, settings);
+    expect(puzzle.maxBridges).toBe(custom.maxBridges);
+    expect(!!puzzle.diagonal).toBe(custom.diagonal);
+    expect(puzzle.capacity ?? 0).toBe(custom.capacity);
+    const { maxBridges, diagonal, obstacles, capacity } = puzzle;
+    expect(HashiSolver.solve(puzzle.nodes, { maxSolutions: 2, maxBridges, diagonal, obstacles, capacity })).toHaveLength(1);
+  });
+
+  it('keeps power-flow boards to as many islands as their cables can supply', () => {
+    const custom = PuzzleGenerator.clampCustom({ ...CUSTOM_DIFFICULTY_DEFAULT, width: 10, height: 10, nodeCount: [20, 30], capacity: 3 });
+    expect(custom.nodeCount).toEqual([9, 9]);
+    expect(PuzzleGenerator.clampCustom({ ...custom, capacity: 1 }).capacity).toBe(3);
+    expect(PuzzleGenerator.clampCustom({ ...custom, capacity: 0 }).capacity).toBe(0);
+  });
+
+  // The edges of the custom limits, at a density the generator can work with
+  it.each<[string, CustomDifficulty]>([
+    ['default', CUSTOM_DIFFICULTY_DEFAULT],
+    ['smallest', { width: 4, height: 4, nodeCount: [2, 5], maxConnections: 2, maxBridges: 1, diagonal: false, obstacles: 0, capacity: 0 }],
+    ['largest', { width: 14, height: 14, nodeCount: [30, 36], maxConnections: 8, maxBridges: 3, diagonal: false, obstacles: 8, capacity: 0 }],
+    ['largest diagonal', { width: 10, height: 10, nodeCount: [12, 15], maxConnections: 8, maxBridges: 3, diagonal: true, obstacles: 8, capacity: 0 }],
+    ['long and thin', { width: 14, height: 4, nodeCount: [8, 18], maxConnections: 4, maxBridges: 2, diagonal: false, obstacles: 2, capacity: 0 }],
+    ['lowest capacity', { width: 8, height: 8, nodeCount: [7, 9], maxConnections: 8, maxBridges: 2, diagonal: false, obstacles: 2, capacity: 3 }],
+    ['highest capacity', { width: 10, height: 10, nodeCount: [20, 24], maxConnections: 8, maxBridges: 3, diagonal: false, obstacles: 8, capacity: 8 }],
+  ])('finds a board for %s custom settings without falling back', (_, custom) => {
+    for (const seed of ['EDGE01', 'EDGE02', 'EDGE03']) {
+      const report = PuzzleGenerator.generateWithReport(Difficulty.MEDIUM, seed, PuzzleGenerator.clampCustom(custom));
+      expect(report.outcome).not.toBe('FALLBACK');
+    }
+  });
+
+  it('reports the stand-in board when the settings produce none', () => {
+    // Two connections per island can't link three dozen islands into one network
+    const custom = PuzzleGenerator.clampCustom({ width: 14, height: 14, nodeCount: [30, 36], maxConnections: 2, maxBridges: 1, diagonal: false, obstacles: 0, capacity: 0 });
+    const report = PuzzleGenerator.generateWithReport(Difficulty.MEDIUM, 'EDGE01', custom);
+    expect(report.outcome).toBe('FALLBACK');
+    expect(report.score).toBeNull();
+    expect(HashiSolver.countSolutions(report.puzzle.nodes, 2, report.puzzle.maxBridges)).toBe(1);
+  });
+
+  it('round-trips puzzle IDs, custom settings included', () => {
+    const custom: CustomDifficulty = { width: 9, height: 5, nodeCount: [6, 10], maxConnections: 5, maxBridges: 3, diagonal: true, obstacles: 2, capacity: 5 };
+    expect(PuzzleGenerator.parsePuzzleId(PuzzleGenerator.getPuzzleId(Difficulty.HARD, 'K7QF3M'))).toEqual({ difficulty: Difficulty.HARD, seed: 'K7QF3M' });
+    expect(PuzzleGenerator.parsePuzzleId(PuzzleGenerator.getPuzzleId(Difficulty.EASY, 'K7QF3M', custom))).toMatchObject({ custom, seed: 'K7QF3M' });
+  });
+
+  // Property run: every seed, on every preset and on random custom settings drawn from the seed itself
+  describe('stress', () => {
+    it.each([Difficulty.EASY, Difficulty.MEDIUM, Difficulty.HARD])(`keeps its invariants on ${STRESS_SEEDS} %s seeds`, difficulty => {
+      const settings = PuzzleGenerator.getSettings(difficulty);
+      for (let i = 0; i < STRESS_SEEDS; i++) {
+        expectValidPuzzle(PuzzleGenerator.generate(difficulty, `stress-${i}`), settings);
+      }
+    }, 600_000);
+
+    it(`keeps its invariants on ${STRESS_SEEDS} random custom settings`, () => {
+      const limits = CUSTOM_DIFFICULTY_LIMITS;
+      for (let i = 0; i < STRESS_SEEDS; i++) {
+        const rng = new SeededRandom(`custom-${i}`);
+        const minNodes = rng.int(limits.minNodes, 10);
+        const custom = PuzzleGenerator.clampCustom({
+          width: rng.int(limits.size[0], MAX_STRESS_SIZE),
+          height: rng.int(limits.size[0], MAX_STRESS_SIZE),
+          nodeCount: [minNodes, minNodes + rng.int(0, 6)],
+          maxConnections: rng.int(limits.maxConnections[0], limits.maxConnections[1]),
+          maxBridges: rng.int(MAX_BRIDGES_RANGE[0], MAX_BRIDGES_RANGE[1]),
+          diagonal: rng.next() < 0.3,
+          obstacles: rng.int(limits.obstacles[0], 4),
+          capacity: rng.next() < 0.3 ? rng.int(limits.capacity[0], limits.capacity[1]) : 0,
+        });
+        const settings = PuzzleGenerator.getSettings(Difficulty.MEDIUM, custom);
+        expectValidPuzzle(PuzzleGenerator.generate(Difficulty.MEDIUM, `stress-${i}`, custom), settings);
+      }
+    }, 600_000);
+  });
+});
@@ -1,32 +1,178 @@
-import { Difficulty, DIFFICULTY_SETTINGS, NodeData, EdgeData, GridPoint } from '../../types';
+import { CustomDifficulty, CUSTOM_DIFFICULTY_LIMITS, DEFAULT_MAX_BRIDGES, Difficulty, DifficultyConfig, DIFFICULTY_SETTINGS, GridPoint, NodeData, EdgeData, PuzzleData } from '../../types';
+import { DisjointSet } from './DisjointSet';
+import { GridGeometry } from './GridGeometry';
+import { HashiSolver } from './HashiSolver';
+import { PuzzleGrader } from './PuzzleGrader';
+import { SeededRandom } from './SeededRandom';
+
+// Solver steps an attempt's uniqueness check may take; generated boards settle in a few dozen,
+// while some dense diagonal layouts would run for minutes, so those attempts are dropped
+const SOLVE_STEP_BUDGET = 2000;
+
+// How generateWithReport() came by its board
+export interface GenerationReport {
+  puzzle: PuzzleData;
+  attempts: number; // Boards tried, the returned one included
+  failures: number; // Attempts thrown away: an isolated house, more than one solution, or too slow to check
+  score: number | null; // PuzzleGrader score; null for the fallback
+  outcome: 'IN_RANGE' | 'CLOSEST' | 'FALLBACK'; // In the difficulty's score range, the nearest miss, or the built-in square
+}
 
 export class PuzzleGenerator {
   /**
-   * Generates a solvable puzzle.
+   * Generates a solvable puzzle. The same difficulty (or custom settings) and seed always produce the same board.
    * 1. Places nodes randomly.
-   * 2. Generates a spanning tree (Kruskal's) to ensure connectivity.
+   * 2. Generates a spanning tree (Kruskal's) to ensure connectivity, then places obstacles off it.
    * 3. Adds extra edges for complexity.
    * 4. Calculates required valence for each node.
+   * 5. Rejects boards that don't have exactly one solution.
+   * 6. Keeps going until the PuzzleGrader score lands in the difficulty's band
+   *    (or returns the closest board found if none does).
    */
-  public static generate(difficulty: Difficulty): { nodes: NodeData[], solutionEdges: EdgeData[] } {
-    const settings = DIFFICULTY_SETTINGS[difficulty];
+  public static generate(difficulty: Difficulty, seed: string, custom?: CustomDifficulty): PuzzleData {
+    return this.generateWithReport(difficulty, seed, custom).puzzle;
+  }
+
+  /**
+   * Same board as generate(), along with how it was found: for tools (the command-line
+   * generator) that must tell boards in the score range from near misses and the fallback.
+   */
+  public static generateWithReport(difficulty: Difficulty, seed: string, custom?: CustomDifficulty): GenerationReport {
+    const settings = this.getSettings(difficulty, custom);
+    // One stream for every attempt, so retries are reproducible too
+    const rng = new SeededRandom(seed);
+    const [minScore, maxScore] = settings.scoreRange;
     let attempts = 0;
+    let failures = 0;
+    let closest: { puzzle: PuzzleData, score: number, distance: number } | null = null;
     
-    while (attempts < 100) {
+    while (attempts < 500) {
+      attempts++;
       try {
-        return this.tryGenerate(settings.gridSize, settings.nodeCount, settings.maxConnections);
+        const puzzle = this.tryGenerate(settings, rng);
+        const { score } = PuzzleGrader.grade(puzzle.nodes, puzzle.solutionEdges, puzzle.maxBridges, settings.diagonal, puzzle.obstacles);
+        const distance = Math.max(minScore - score, score - maxScore, 0);
+        if (distance === 0) return { puzzle, attempts, failures, score, outcome: 'IN_RANGE' };
+
+        if (!closest || distance < closest.distance) {
+          closest = { puzzle, score, distance };
+        }
       } catch (e) {
-        // console.warn('Generation failed, retrying...', e);
-        attempts++;
+        failures++;
       }
     }
     
+    if (closest) return { puzzle: closest.puzzle, attempts, failures, score: closest.score, outcome: 'CLOSEST' };
+
     // Fallback simple square
-    return this.createFallbackPuzzle();
+    return { puzzle: this.createFallbackPuzzle(), attempts, failures, score: null, outcome: 'FALLBACK' };
+  }
+
+  /**
+   * Generator settings for a preset, or for custom settings (which override the preset).
+   */
+  public static getSettings(difficulty: Difficulty, custom?: CustomDifficulty): DifficultyConfig {
+    if (!custom) return DIFFICULTY_SETTINGS[difficulty];
+    return { ...this.clampCustom(custom), scale: 1, scoreRange: [0, Infinity] };
+  }
+
+  /**
+   * Pulls custom settings into the supported range: grid size, island count (at least 2,
+   * at most a third of the grid points and a fixed cap), connections per island, cables per
+   * pair, obstacles and cable capacity (0 keeps the power-flow rule off). Diagonal boards get
+   * a smaller grid and island cap, and the power-flow rule caps islands by capacity: a plant
+   * can't reach many houses through cables that each carry only a few.
+   */
+  public static clampCustom(custom: CustomDifficulty): CustomDifficulty {
+    const limits = CUSTOM_DIFFICULTY_LIMITS;
+    const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, Math.round(value) || min));
+
+    const diagonal = !!custom.diagonal;
+    const maxSize = diagonal ? limits.diagonalSize : limits.size[1];
+    const width = clamp(custom.width, limits.size[0], maxSize);
+    const height = clamp(custom.height, limits.size[0], maxSize);
+    const capacity = custom.capacity ? clamp(custom.capacity, limits.capacity[0], limits.capacity[1]) : 0;
+    const maxNodes = Math.min(
+      Math.floor(width * height * limits.nodesPerCell),
+      diagonal ? limits.diagonalMaxNodes : limits.maxNodes,
+      capacity > 0 ? capacity * limits.nodesPerCapacity : Infinity
+    );
+    const minCount = clamp(custom.nodeCount[0], limits.minNodes, maxNodes);
+    const maxCount = clamp(custom.nodeCount[1], minCount, maxNodes);
+    const maxConnections = clamp(custom.maxConnections, limits.maxConnections[0], limits.maxConnections[1]);
+    const maxBridges = clamp(custom.maxBridges ?? DEFAULT_MAX_BRIDGES, limits.maxBridges[0], limits.maxBridges[1]);
+    const obstacles = clamp(custom.obstacles ?? 0, limits.obstacles[0], limits.obstacles[1]);
+    return { width, height, nodeCount: [minCount, maxCount], maxConnections, maxBridges, diagonal, obstacles, capacity };
   }
 
-  private static tryGenerate(gridSize: number, nodeRange: [number, number], maxConnections: number) {
-    const numNodes = Math.floor(Math.random() * (nodeRange[1] - nodeRange[0] + 1)) + nodeRange[0];
+  /**
+   * Shareable identifier for a board, e.g. "hard-K7QF3M".
+   * Custom boards carry their settings: "custom-8x6-8to12-max6-K7QF3M", plus "-b3" when the
+   * bridge rule isn't the classic two per pair, "-diag" for the diagonal variant, "-o2"
+   * for the number of obstacles (none when absent) and "-cap4" for the power-flow rule.
+   */
+  public static getPuzzleId(difficulty: Difficulty, seed: string, custom?: CustomDifficulty): string {
+    if (custom) {
+      const { width, height, nodeCount, maxConnections, maxBridges, diagonal, obstacles, capacity } = custom;
+      const bridges = maxBridges === DEFAULT_MAX_BRIDGES ? '' : `-b${maxBridges}`;
+      const variant = diagonal ? '-diag' : '';
+      const blocked = obstacles > 0 ? `-o${obstacles}` : '';
+      const power = capacity > 0 ? `-cap${capacity}` : '';
+      return `custom-${width}x${height}-${nodeCount[0]}to${nodeCount[1]}-max${maxConnections}${bridges}${variant}${blocked}${power}-${SeededRandom.normalizeSeed(seed)}`;
+    }
+    return `${difficulty}-${SeededRandom.normalizeSeed(seed)}`;
+  }
+
+  /**
+   * Seed of the daily puzzle for a calendar day ("2026-10-19" -> "D20261019").
+   * Random seeds are six characters long, so daily seeds can't collide with them.
+   */
+  public static getDailySeed(dayKey: string): string {
+    return `D${dayKey.replace(/-/g, '')}`;
+  }
+
+  /**
+   * Calendar day of a daily seed, or null for any other seed.
+   */
+  public static getDailyDay(seed: string): string | null {
+    const match = /^D(\d{4})(\d{2})(\d{2})$/.exec(SeededRandom.normalizeSeed(seed));
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+  }
+
+  /**
+   * Accepts either a full puzzle ID ("hard-K7QF3M", "custom-8x6-8to12-max6-b3-diag-o2-cap4-K7QF3M") or a bare seed ("K7QF3M").
+   */
+  public static parsePuzzleId(text: string): { difficulty?: Difficulty, custom?: CustomDifficulty, seed: string } {
+    const trimmed = text.trim();
+    const customMatch = /^custom-(\d+)x(\d+)-(\d+)to(\d+)-max(\d+)(?:-b(\d+))?(-diag)?(?:-o(\d+))?(?:-cap(\d+))?-(.+)$/i.exec(trimmed);
+    if (customMatch) {
+      const [, width, height, minNodes, maxNodes, maxConnections, maxBridges, diagonal, obstacles, capacity, seed] = customMatch;
+      const custom = this.clampCustom({
+        width: Number(width),
+        height: Number(height),
+        nodeCount: [Number(minNodes), Number(maxNodes)],
+        maxConnections: Number(maxConnections),
+        maxBridges: maxBridges ? Number(maxBridges) : DEFAULT_MAX_BRIDGES,
+        diagonal: !!diagonal,
+        obstacles: obstacles ? Number(obstacles) : 0,
+        capacity: capacity ? Number(capacity) : 0,
+      });
+      return { custom, seed: SeededRandom.normalizeSeed(seed) };
+    }
+    const dash = trimmed.indexOf('-');
+    if (dash > 0) {
+      const prefix = trimmed.slice(0, dash).toLowerCase();
+      const difficulty = Object.values(Difficulty).find(d => d === prefix);
+      if (difficulty) {
+        return { difficulty, seed: SeededRandom.normalizeSeed(trimmed.slice(dash + 1)) };
+      }
+    }
+    return { seed: SeededRandom.normalizeSeed(trimmed) };
+  }
+
+  private static tryGenerate(settings: DifficultyConfig, rng: SeededRandom): PuzzleData {
+    const { width, height, nodeCount: nodeRange, maxConnections, maxBridges, diagonal, obstacles: obstacleCount, capacity } = settings;
+    const numNodes = rng.int(nodeRange[0], nodeRange[1]);
     const nodes: NodeData[] = [];
     const occupied = new Set<string>();
 
@@ -35,8 +181,8 @@ export class PuzzleGenerator {
       let placed = false;
       let placeAttempts = 0;
       while (!placed && placeAttempts < 50) {
-        const x = Math.floor(Math.random() * gridSize);
-        const y = Math.floor(Math.random() * gridSize);
+        const x = rng.int(0, width - 1);
+        const y = rng.int(0, height - 1);
         const key = `${x},${y}`;
         
         // Ensure not too close to others (optional, but looks better) or overlapping
@@ -56,8 +202,8 @@ export class PuzzleGenerator {
     }
     if (nodes.length < nodeRange[0]) throw new Error("Not enough nodes placed");
 
-    // 2. Identify all possible valid orthogonal edges (neighbors)
-    let potentialEdges: { u: NodeData, v: NodeData, dist: number }[] = [];
+    // 2. Identify all possible valid edges (neighbors): orthogonal, plus diagonal under that rule
+    let potentialEdges: { u: NodeData, v: NodeData }[] = [];
     
     for (let i = 0; i < nodes.length; i++) {
       for (let j = i + 1; j < nodes.length; j++) {
@@ -65,18 +211,17 @@ export class PuzzleGenerator {
         const v = nodes[j];
         
         // Check alignment
-        if (u.x !== v.x && u.y !== v.y) continue;
+        if (!GridGeometry.isAligned(u, v, diagonal)) continue;
         
         // Check if any node is blocking the path
-        if (this.isNodeBetween(u, v, nodes)) continue;
+        if (GridGeometry.isNodeBetween(u, v, nodes)) continue;
 
-        const dist = Math.abs(u.x - v.x) + Math.abs(u.y - v.y);
-        potentialEdges.push({ u, v, dist });
+        potentialEdges.push({ u, v });
       }
     }
 
     // Shuffle edges for randomness
-    potentialEdges = potentialEdges.sort(() => Math.random() - 0.5);
+    rng.shuffle(potentialEdges);
 
     // 3. Kruskal's Algorithm for Spanning Tree
     const edges: EdgeData[] = [];
@@ -88,7 +233,7 @@ export class PuzzleGenerator {
       return edges.some(e => {
         const eU = nodes.find(n => n.id === e.nodeA)!;
         const eV = nodes.find(n => n.id === e.nodeB)!;
-        return this.linesCross(u, v, eU, eV);
+        return GridGeometry.linesCross(u, v, eU, eV);
       });
     };
 
@@ -100,8 +245,8 @@ export class PuzzleGenerator {
       if (ds.find(uIdx) !== ds.find(vIdx)) {
         if (!isCrossing(p.u, p.v)) {
           ds.union(uIdx, vIdx);
-          // Randomly decide 1 or 2 cables for initial tree
-          const count = Math.random() > 0.7 ? 2 : 1;
+          // Randomly decide how many cables for initial tree
+          const count = this.randomCount(rng, 0.7, maxBridges);
           edges.push({ nodeA: p.u.id, nodeB: p.v.id, count });
         }
       }
@@ -110,6 +255,32 @@ export class PuzzleGenerator {
     // Verify connectivity
     if (ds.count > 1) throw new Error("Graph not connected");
 
+    // Obstacles go on free grid points off the tree, so they never cut the board apart; a point
+    // along a connection the tree doesn't use is preferred, since it rules that one out.
+    // A board without any draws nothing more from the stream.
+    const obstacles: GridPoint[] = [];
+    const treeLines = edges.map(e => [nodes.find(n => n.id === e.nodeA)!, nodes.find(n => n.id === e.nodeB)!]);
+    const isOnTree = (point: GridPoint) => treeLines.some(([u, v]) => GridGeometry.isObstacleBetween(u, v, [point]));
+    const blocksSpare = (point: GridPoint) => potentialEdges.some(p =>
+      GridGeometry.isObstacleBetween(p.u, p.v, [point]) && !GridGeometry.isObstacleBetween(p.u, p.v, obstacles)
+    );
+    for (let i = 0; i < obstacleCount; i++) {
+      let choice: GridPoint | null = null;
+      for (let placeAttempts = 0; placeAttempts < 50; placeAttempts++) {
+        const point = { x: rng.int(0, width - 1), y: rng.int(0, height - 1) };
+        if (occupied.has(`${point.x},${point.y}`) || isOnTree(point)) continue;
+        if (blocksSpare(point)) {
+          choice = point;
+          break;
+        }
+        choice = choice ?? point;
+      }
+      if (!choice) continue;
+      obstacles.push(choice);
+      occupied.add(`${choice.x},${choice.y}`);
+    }
+    potentialEdges = potentialEdges.filter(p => !GridGeometry.isObstacleBetween(p.u, p.v, obstacles));
+
     // 4. Add Extra Edges (Complexity)
     // Try to add about 20% more edges from the remaining potential list
     const extraEdgesTarget = Math.floor(edges.length * 0.3);
@@ -127,7 +298,7 @@ export class PuzzleGenerator {
       if (!exists && !isCrossing(p.u, p.v)) {
         // Only add if it doesn't violate max connections (heuristic check)
         // Detailed check happens later, this is just to fill out the graph
-        const count = Math.random() > 0.6 ? 2 : 1;
+        const count = this.randomCount(rng, 0.6, maxBridges);
         edges.push({ nodeA: p.u.id, nodeB: p.v.id, count });
         addedExtra++;
       }
@@ -160,65 +331,32 @@ export class PuzzleGenerator {
     // If a node has 0 req connections, the puzzle is invalid.
     if (nodes.some(n => n.requiredConnections === 0)) throw new Error("Isolated node");
 
-    return { nodes, solutionEdges: validEdges };
-  }
-
-  // --- Helpers ---
+    // 6. Uniqueness: any valid board the player reaches must match the solution.
+    // The solver's solution replaces validEdges, since pruning above may have left a
+    // different (or disconnected) arrangement than the one the player has to find.
+    // Running out of steps throws like any other rejected attempt
+    const solutions = HashiSolver.solve(nodes, { maxSolutions: 2, maxBridges, diagonal, obstacles, capacity, maxSteps: SOLVE_STEP_BUDGET });
+    if (solutions.length !== 1) throw new Error("Puzzle does not have a unique solution");
 
-  private static isNodeBetween(u: NodeData, v: NodeData, allNodes: NodeData[]): boolean {
-    const isVertical = u.x === v.x;
-    
-    for (const node of allNodes) {
-      if (node.id === u.id || node.id === v.id) continue;
-      
-      if (isVertical) {
-        if (node.x === u.x && 
-           ((node.y > u.y && node.y < v.y) || (node.y > v.y && node.y < u.y))) {
-          return true;
-        }
-      } else {
-        if (node.y === u.y && 
-           ((node.x > u.x && node.x < v.x) || (node.x > v.x && node.x < u.x))) {
-          return true;
-        }
-      }
-    }
-    return false;
+    const puzzle: PuzzleData = { width, height, maxBridges, diagonal, obstacles, nodes, solutionEdges: solutions[0] };
+    if (capacity > 0) puzzle.capacity = capacity;
+    return puzzle;
   }
 
-  private static linesCross(a1: NodeData, a2: NodeData, b1: NodeData, b2: NodeData): boolean {
-    const isAVert = a1.x === a2.x;
-    const isBVert = b1.x === b2.x;
-
-    // Parallel lines don't "cross" in this grid logic (overlap checked elsewhere)
-    if (isAVert === isBVert) return false;
-
-    // A is vertical, B is horizontal
-    if (isAVert) {
-      const xA = a1.x;
-      const minYA = Math.min(a1.y, a2.y);
-      const maxYA = Math.max(a1.y, a2.y);
-
-      const yB = b1.y;
-      const minXB = Math.min(b1.x, b2.x);
-      const maxXB = Math.max(b1.x, b2.x);
-
-      return (xA > minXB && xA < maxXB) && (yB > minYA && yB < maxYA);
-    } else {
-      // A is horizontal, B is vertical
-      const yA = a1.y;
-      const minXA = Math.min(a1.x, a2.x);
-      const maxXA = Math.max(a1.x, a2.x);
-
-      const xB = b1.x;
-      const minYB = Math.min(b1.y, b2.y);
-      const maxYB = Math.max(b1.y, b2.y);
+  // --- Helpers ---
 
-      return (yA > minYB && yA < maxYB) && (xB > minXA && xB < maxXA);
-    }
+  /**
+   * Cables for a new pair: a double once the roll beats `doubleAbove`, then a coin flip for
+   * each further cable the rule allows. The classic rule never makes the extra rolls, so its
+   * boards come out the same for a given seed.
+   */
+  private static randomCount(rng: SeededRandom, doubleAbove: number, maxBridges: number): number {
+    let count = rng.next() > doubleAbove ? 2 : 1;
+    while (count >= 2 && count < maxBridges && rng.next() > 0.5) count++;
+    return Math.min(count, maxBridges);
   }
 
-  private static createFallbackPuzzle() {
+  private static createFallbackPuzzle(): PuzzleData {
     const nodes = [
       { id: 'n_0', x: 1, y: 1, requiredConnections: 2, currentConnections: 0 },
       { id: 'n_1', x: 3, y: 1, requiredConnections: 2, currentConnections: 0 },
@@ -232,28 +370,6 @@ export class PuzzleGenerator {
       { nodeA: 'n_3', nodeB: 'n_2', count: 1 },
       { nodeA: 'n_2', nodeB: 'n_0', count: 1 },
     ];
-    return { nodes, solutionEdges: edges };
+    return { width: 5, height: 5, maxBridges: DEFAULT_MAX_BRIDGES, nodes, solutionEdges: edges };
   }
 }
-
-class DisjointSet {
-  parent: number[];
-  count: number;
-  constructor(n: number) {
-    this.parent = Array.from({ length: n }, (_, i) => i);
-    this.count = n;
-  }
-  find(i: number): number {
-    if (this.parent[i] === i) return i;
-    this.parent[i] = this.find(this.parent[i]);
-    return this.parent[i];
-  }
-  union(i: number, j: number) {
-    const rootI = this.find(i);
-    const rootJ = this.find(j);
-    if (rootI !== rootJ) {
-      this.parent[rootI] = rootJ;
-      this.count--;
-    }
-  }
-}
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { NodeData } from '../../types';
+import { HashiSolver } from './HashiSolver';
+import { PuzzleGrader, Technique, TECHNIQUE_INFO } from './PuzzleGrader';
+
+// A house at (x, y) that wants `required` cables
+const house = (id: string, x: number, y: number, required: number): NodeData =>
+  ({ id, x, y, requiredConnections: required, currentConnections: 0 });
+
+// Four houses on the corners of a square, all wanting the same count
+const square = (required: number) =>
+  [house('a', 0, 0, required), house('b', 2, 0, required), house('c', 0, 2, required), house('d', 2, 2, required)];
+
+describe('PuzzleGrader', () => {
+  describe('grade', () => {
+    it('solves a line with the simplest technique', () => {
+      const result = PuzzleGrader.grade([house('a', 0, 0, 1), house('b', 1, 0, 2), house('c', 2, 0, 1)]);
+      expect(result.steps.map(s => s.technique)).toEqual([Technique.ONLY_ONE_NEIGHBOR, Technique.ONLY_ONE_NEIGHBOR]);
+      expect(result.score).toBe(2);
+      expect(result.solvedWithoutGuessing).toBe(true);
+    });
+
+    it('reaches for the next rung only when the cheaper ones are stuck', () => {
+      // Corner 4s can't start with a single neighbor, but must fill both
+      const result = PuzzleGrader.grade(square(4));
+      expect(result.steps.map(s => s.technique)).toEqual([Technique.SATURATED, Technique.ONLY_ONE_NEIGHBOR, Technique.ONLY_ONE_NEIGHBOR]);
+    });
+
+    it('scores the sum of the technique weights', () => {
+      const result = PuzzleGrader.grade(square(2));
+      expect(result.techniqueCounts[Technique.LOOKAHEAD]).toBe(1);
+      const total = result.steps.reduce((sum, s) => sum + TECHNIQUE_INFO[s.technique].weight, 0);
+      expect(result.score).toBe(total);
+    });
+
+    it('has to guess on a board with two solutions', () => {
+      const result = PuzzleGrader.grade(square(3));
+      expect(result.techniqueCounts[Technique.GUESS]).toBe(1);
+      expect(result.solvedWithoutGuessing).toBe(false);
+    });
+  });
+
+  describe('findHint', () => {
+    const nodes = square(2);
+    const [solution] = HashiSolver.solve(nodes);
+
+    it('points out a pair with more cables than the solution', () => {
+      expect(PuzzleGrader.findHint(nodes, [{ nodeA: 'a', nodeB: 'b', count: 2 }], solution)).toMatchObject({ kind: 'MISTAKE', nodeA: 'a', nodeB: 'b', count: 1 });
+    });
+
+    it('suggests the next cable on a fresh board', () => {
+      expect(PuzzleGrader.findHint(nodes, [], solution)).toMatchObject({ kind: 'MOVE', nodeA: 'a', nodeB: 'b', count: 1, technique: Technique.LOOKAHEAD });
+    });
+
+    it('skips cables already placed', () => {
+      const hint = PuzzleGrader.findHint(nodes, [{ nodeA: 'a', nodeB: 'b', count: 1 }], solution);
+      expect(hint).toMatchObject({ kind: 'MOVE' });
+      expect([hint!.nodeA, hint!.nodeB]).not.toEqual(['a', 'b']);
+    });
+
+    it('has nothing to say about a solved board', () => {
+      expect(PuzzleGrader.findHint(nodes, solution, solution)).toBeNull();
+    });
+  });
+});
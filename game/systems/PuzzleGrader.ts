@@ -0,0 +1,418 @@
+import { DEFAULT_MAX_BRIDGES, GridPoint, NodeData, EdgeData } from '../../types';
+import { BridgeGraph } from './BridgeGraph';
+import { HashiSolver } from './HashiSolver';
+
+/**
+ * Human solving techniques, from the most obvious to the most demanding.
+ */
+export enum Technique {
+  ONLY_ONE_NEIGHBOR = 'ONLY_ONE_NEIGHBOR',
+  SATURATED = 'SATURATED',
+  FORCED_MINIMUM = 'FORCED_MINIMUM',
+  ISOLATION = 'ISOLATION',
+  LOOKAHEAD = 'LOOKAHEAD',
+  GUESS = 'GUESS',
+}
+
+export const TECHNIQUE_INFO: Record<Technique, { name: string; weight: number }> = {
+  [Technique.ONLY_ONE_NEIGHBOR]: { name: 'Only one neighbor', weight: 1 },
+  [Technique.SATURATED]: { name: 'Forced full house', weight: 1 }, // The classic 8 / 6 / 4-in-a-corner
+  [Technique.FORCED_MINIMUM]: { name: 'Forced minimum', weight: 2 },
+  [Technique.ISOLATION]: { name: 'Isolation avoidance', weight: 4 },
+  [Technique.LOOKAHEAD]: { name: 'Trial and contradiction', weight: 8 },
+  [Technique.GUESS]: { name: 'Guess', weight: 25 },
+};
+
+// A tightened bound for one pair of houses
+export interface BridgeChange {
+  nodeA: string;
+  nodeB: string;
+  min: number;
+  max: number;
+}
+
+export interface Deduction {
+  technique: Technique;
+  nodeId: string; // The house the reasoning is about
+  changes: BridgeChange[];
+  reason: string;
+}
+
+// What the hint button shows: either the next logical move or a cable that has to go
+export interface Hint {
+  kind: 'MOVE' | 'MISTAKE';
+  nodeA: string;
+  nodeB: string;
+  count: number; // Cables this pair should have (at least, for a MOVE)
+  reason: string;
+  technique?: Technique;
+}
+
+export interface GradeResult {
+  score: number;
+  solvedWithoutGuessing: boolean;
+  steps: Deduction[];
+  techniqueCounts: Partial<Record<Technique, number>>;
+}
+
+// Per-bridge bounds on how many cables it can still carry
+interface GraderState {
+  lo: number[];
+  hi: number[];
+}
+
+type TechniqueFinder = (graph: BridgeGraph, state: GraderState) => Deduction | null;
+
+export class PuzzleGrader {
+  /**
+   * Solves the board the way a person would, always using the simplest technique that makes progress,
+   * and scores it by the sum of the technique weights used.
+   */
+  public static grade(
+    nodes: NodeData[],
+    solutionEdges?: EdgeData[],
+    maxBridges: number = DEFAULT_MAX_BRIDGES,
+    diagonal: boolean = false,
+    obstacles: GridPoint[] = []
+  ): GradeResult {
+    const graph = new BridgeGraph(nodes, maxBridges, diagonal, obstacles);
+    const state = this.createState(graph);
+    const solution = graph.fromEdges(solutionEdges ?? HashiSolver.solve(nodes, { maxSolutions: 1, maxBridges, diagonal, obstacles })[0] ?? []);
+
+    const steps: Deduction[] = [];
+    const techniqueCounts: Partial<Record<Technique, number>> = {};
+    let score = 0;
+
+    while (this.tidy(graph, state) && !this.isComplete(state)) {
+      const step = this.findStep(graph, state, solution);
+      if (!step) break;
+
+      this.apply(graph, state, step);
+      steps.push(step);
+      techniqueCounts[step.technique] = (techniqueCounts[step.technique] || 0) + 1;
+      score += TECHNIQUE_INFO[step.technique].weight;
+    }
+
+    return {
+      score,
+      solvedWithoutGuessing: !techniqueCounts[Technique.GUESS],
+      steps,
+      techniqueCounts,
+    };
+  }
+
+  /**
+   * Finds the next thing a stuck player should look at, given the cables already placed.
+   * Cables that contradict the solution take priority over new deductions.
+   */
+  public static findHint(
+    nodes: NodeData[],
+    currentEdges: EdgeData[],
+    solutionEdges: EdgeData[],
+    maxBridges: number = DEFAULT_MAX_BRIDGES,
+    diagonal: boolean = false,
+    obstacles: GridPoint[] = []
+  ): Hint | null {
+    const graph = new BridgeGraph(nodes, maxBridges, diagonal, obstacles);
+    const solution = graph.fromEdges(solutionEdges);
+
+    // 1. Mistakes: more cables on a pair than the solution has
+    const [mistake] = HashiSolver.findContradictions(currentEdges, [solutionEdges]);
+    if (mistake) {
+      const b = graph.findBridge(mistake.nodeA, mistake.nodeB);
+      const expected = b === -1 ? 0 : solution[b];
+      return {
+        kind: 'MISTAKE',
+        nodeA: mistake.nodeA,
+        nodeB: mistake.nodeB,
+        count: expected,
+        reason: expected === 0
+          ? `These two shouldn't be connected at all.`
+          : `This pair has more connections than it needs.`,
+      };
+    }
+
+    // 2. Deductions, starting from the player's cables
+    const current = graph.fromEdges(currentEdges);
+    const state: GraderState = { lo: current.slice(), hi: graph.bridges.map(() => graph.maxBridges) };
+
+    while (this.tidy(graph, state) && !this.isComplete(state)) {
+      const step = this.findStep(graph, state, solution);
+      if (!step) break;
+      this.apply(graph, state, step);
+
+      // Rule-outs only matter on the way to a new cable
+      const move = step.changes.find(c => c.min > current[graph.findBridge(c.nodeA, c.nodeB)]);
+      if (move) {
+        return {
+          kind: 'MOVE',
+          nodeA: move.nodeA,
+          nodeB: move.nodeB,
+          count: move.min,
+          reason: step.reason,
+          technique: step.technique,
+        };
+      }
+    }
+    return null;
+  }
+
+  // --- Techniques ---
+
+  private static findStep(graph: BridgeGraph, state: GraderState, solution: number[]): Deduction | null {
+    for (const finder of this.LADDER) {
+      const step = finder(graph, state);
+      if (step) return step;
+    }
+    return this.guess(graph, state, solution);
+  }
+
+  // Cheapest first; the grader always reaches for the simplest technique that works
+  private static readonly CHEAP_LADDER: TechniqueFinder[] = [
+    (g, s) => PuzzleGrader.onlyOneNeighbor(g, s),
+    (g, s) => PuzzleGrader.saturated(g, s),
+    (g, s) => PuzzleGrader.forcedMinimum(g, s),
+    (g, s) => PuzzleGrader.isolation(g, s),
+  ];
+
+  private static readonly LADDER: TechniqueFinder[] = [
+    ...PuzzleGrader.CHEAP_LADDER,
+    (g, s) => PuzzleGrader.lookahead(g, s),
+  ];
+
+  /**
+   * A house with a single neighbor left must send all its remaining cables there.
+   */
+  private static onlyOneNeighbor(graph: BridgeGraph, state: GraderState): Deduction | null {
+    for (let n = 0; n < graph.nodes.length; n++) {
+      const { required, placed, open } = this.nodeSummary(graph, state, n);
+      const need = required - placed;
+      if (need <= 0 || open.length !== 1) continue;
+
+      const b = open[0];
+      return this.deduction(graph, Technique.ONLY_ONE_NEIGHBOR, n, [[b, state.lo[b] + need, state.hi[b]]],
+        `This ${required} has only one neighbor left, so ${need === 1 ? 'its last connection' : `its last ${need} connections`} must go there.`);
+    }
+    return null;
+  }
+
+  /**
+   * A house that needs every cable it could still get (an 8 in the open, a 6 on an edge, a 4 in a corner).
+   */
+  private static saturated(graph: BridgeGraph, state: GraderState): Deduction | null {
+    for (let n = 0; n < graph.nodes.length; n++) {
+      const { required, capacity, open } = this.nodeSummary(graph, state, n);
+      if (open.length === 0 || capacity !== required) continue;
+
+      const neighbors = graph.nodeBridges[n].filter(b => state.hi[b] > 0);
+      const allFull = graph.maxBridges > 1 && neighbors.every(b => state.hi[b] === graph.maxBridges);
+      const who = neighbors.length === 2 ? 'both neighbors' : `all ${neighbors.length} neighbors`;
+      return this.deduction(graph, Technique.SATURATED, n, open.map(b => [b, state.hi[b], state.hi[b]]),
+        `This ${required} must use ${who} ${allFull ? this.multiple(graph.maxBridges) : 'as fully as possible'}.`);
+    }
+    return null;
+  }
+
+  /**
+   * A house whose other neighbors can't cover its number must use this one at least partly
+   * (e.g. a 3 in a corner, a 5 on an edge, a 7 in the open).
+   */
+  private static forcedMinimum(graph: BridgeGraph, state: GraderState): Deduction | null {
+    for (let n = 0; n < graph.nodes.length; n++) {
+      const { required, capacity, open } = this.nodeSummary(graph, state, n);
+      const changes: [number, number, number][] = [];
+      for (const b of open) {
+        const min = required - (capacity - state.hi[b]);
+        if (min > state.lo[b]) changes.push([b, min, state.hi[b]]);
+      }
+      if (changes.length === 0) continue;
+
+      return this.deduction(graph, Technique.FORCED_MINIMUM, n, changes,
+        changes.length === open.length && open.length > 1
+          ? `This ${required} can't be completed without connecting to each of its open neighbors.`
+          : `This ${required} can't be completed without a connection to this neighbor.`);
+    }
+    return null;
+  }
+
+  /**
+   * A connection that would seal a group off from the rest of the board is ruled out,
+   * and a connection that is the only way to reach part of the board is required.
+   */
+  private static isolation(graph: BridgeGraph, state: GraderState): Deduction | null {
+    for (let b = 0; b < graph.bridges.length; b++) {
+      if (state.lo[b] === state.hi[b]) continue;
+      const bridge = graph.bridges[b];
+
+      // Would adding one more cable here close off a finished group?
+      const trial = state.lo.slice();
+      trial[b] = state.lo[b] + 1;
+      if (graph.hasClosedIsland(trial)) {
+        const times = trial[b] === 1 ? '' : trial[b] === 2 ? ' twice' : ` ${trial[b]} times`;
+        return this.deduction(graph, Technique.ISOLATION, bridge.a, [[b, state.lo[b], state.lo[b]]],
+          `Connecting these two${times} would cut them off from the rest of the board.`);
+      }
+
+      // Is this the only route between two parts of the board?
+      if (state.lo[b] === 0) {
+        const without = state.hi.slice();
+        without[b] = 0;
+        if (!graph.isConnected(without)) {
+          return this.deduction(graph, Technique.ISOLATION, bridge.a, [[b, 1, state.hi[b]]],
+            `This is the only way to link these houses to the rest of the board.`);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Assume the smallest or largest option for a pair and follow the simple techniques
+   * until something breaks.
+   */
+  private static lookahead(graph: BridgeGraph, state: GraderState): Deduction | null {
+    for (let b = 0; b < graph.bridges.length; b++) {
+      const { lo, hi } = state;
+      if (lo[b] === hi[b]) continue;
+      const bridge = graph.bridges[b];
+
+      if (!this.survives(graph, state, b, lo[b])) {
+        return this.deduction(graph, Technique.LOOKAHEAD, bridge.a, [[b, lo[b] + 1, hi[b]]],
+          lo[b] === 0
+            ? `Leaving these two unconnected quickly leads to a contradiction.`
+            : `Stopping at ${this.plural(lo[b], 'connection')} here quickly leads to a contradiction.`);
+      }
+      if (!this.survives(graph, state, b, hi[b])) {
+        return this.deduction(graph, Technique.LOOKAHEAD, bridge.a, [[b, lo[b], hi[b] - 1]],
+          `Using ${this.plural(hi[b], 'connection')} here quickly leads to a contradiction.`);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Last resort: take the next pair straight from the solution.
+   */
+  private static guess(graph: BridgeGraph, state: GraderState, solution: number[]): Deduction | null {
+    const b = graph.bridges.findIndex((_, i) => state.lo[i] !== state.hi[i]);
+    if (b === -1) return null;
+
+    const count = Math.min(Math.max(solution[b] ?? 0, state.lo[b]), state.hi[b]);
+    return this.deduction(graph, Technique.GUESS, graph.bridges[b].a, [[b, count, count]],
+      `No simple deduction applies here; this pair takes ${this.plural(count, 'connection')} in the solution.`);
+  }
+
+  // --- State helpers ---
+
+  private static createState(graph: BridgeGraph): GraderState {
+    return {
+      lo: graph.bridges.map(() => 0),
+      hi: graph.bridges.map(() => graph.maxBridges),
+    };
+  }
+
+  private static isComplete(state: GraderState): boolean {
+    return state.lo.every((lo, i) => lo === state.hi[i]);
+  }
+
+  /**
+   * Bookkeeping a player does without thinking: full houses take no more cables, and
+   * nothing may cross a placed cable. Returns false on a contradiction.
+   */
+  private static tidy(graph: BridgeGraph, state: GraderState): boolean {
+    const { lo, hi } = state;
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+
+      for (let n = 0; n < graph.nodes.length; n++) {
+        const { required, placed, capacity } = this.nodeSummary(graph, state, n);
+        if (placed > required || capacity < required) return false;
+
+        for (const b of graph.nodeBridges[n]) {
+          const max = required - (placed - lo[b]);
+          if (hi[b] > max) {
+            hi[b] = max;
+            changed = true;
+          }
+        }
+      }
+
+      for (let b = 0; b < graph.bridges.length; b++) {
+        if (lo[b] > hi[b]) return false;
+        if (lo[b] === 0) continue;
+        for (const c of graph.bridges[b].crossings) {
+          if (lo[c] > 0) return false;
+          if (hi[c] > 0) {
+            hi[c] = 0;
+            changed = true;
+          }
+        }
+      }
+    }
+
+    return graph.isConnected(hi) && !graph.hasClosedIsland(lo);
+  }
+
+  /**
+   * Whether fixing bridge b at `count` survives the simple techniques without a contradiction.
+   */
+  private static survives(graph: BridgeGraph, state: GraderState, b: number, count: number): boolean {
+    const trial: GraderState = { lo: state.lo.slice(), hi: state.hi.slice() };
+    trial.lo[b] = count;
+    trial.hi[b] = count;
+
+    while (this.tidy(graph, trial)) {
+      const step = this.CHEAP_LADDER.reduce<Deduction | null>((found, finder) => found ?? finder(graph, trial), null);
+      if (!step) return true;
+      if (!this.apply(graph, trial, step)) return false;
+    }
+    return false;
+  }
+
+  private static apply(graph: BridgeGraph, state: GraderState, step: Deduction): boolean {
+    for (const change of step.changes) {
+      const b = graph.findBridge(change.nodeA, change.nodeB);
+      state.lo[b] = Math.max(state.lo[b], change.min);
+      state.hi[b] = Math.min(state.hi[b], change.max);
+      if (state.lo[b] > state.hi[b]) return false;
+    }
+    return true;
+  }
+
+  private static nodeSummary(graph: BridgeGraph, state: GraderState, n: number) {
+    const required = graph.nodes[n].requiredConnections;
+    let placed = 0;
+    let capacity = 0;
+    const open: number[] = [];
+    for (const b of graph.nodeBridges[n]) {
+      placed += state.lo[b];
+      capacity += state.hi[b];
+      if (state.lo[b] < state.hi[b]) open.push(b);
+    }
+    return { required, placed, capacity, open };
+  }
+
+  private static deduction(graph: BridgeGraph, technique: Technique, nodeIndex: number, changes: [number, number, number][], reason: string): Deduction {
+    return {
+      technique,
+      nodeId: graph.nodes[nodeIndex].id,
+      changes: changes.map(([b, min, max]) => ({
+        nodeA: graph.nodes[graph.bridges[b].a].id,
+        nodeB: graph.nodes[graph.bridges[b].b].id,
+        min,
+        max,
+      })),
+      reason,
+    };
+  }
+
+  private static plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+  }
+
+  private static multiple(count: number): string {
+    return count === 2 ? 'doubly' : count === 3 ? 'triply' : `${count} times over`;
+  }
+}
@@ -0,0 +1,76 @@
+import { PuzzleFile } from './PuzzleFormat';
+
+const CELL = 48; // px between grid points
+const MARGIN = 32;
+const RADIUS = 16;
+const LANE_SPACING = 6; // px between the parallel lines of a multi-bridge
+const CAPTION_HEIGHT = 24;
+
+/**
+ * Print-ready picture of a board for puzzle books: islands with their numbers, obstacles and
+ * the file's bridges when it has any (an answer page). Plain SVG text, so it needs no canvas.
+ */
+export class PuzzleSvg {
+  public static render(puzzle: PuzzleFile, caption?: string): string {
+    const width = (puzzle.width - 1) * CELL + MARGIN * 2;
+    const gridHeight = (puzzle.height - 1) * CELL + MARGIN * 2;
+    const height = gridHeight + (caption ? CAPTION_HEIGHT : 0);
+    const px = (n: number) => MARGIN + n * CELL;
+    const parts: string[] = [];
+
+    parts.push(`<rect width="${width}" height="${height}" fill="#ffffff"/>`);
+
+    // A faint dot on every grid point
+    for (let y = 0; y < puzzle.height; y++) {
+      for (let x = 0; x < puzzle.width; x++) {
+        parts.push(`<circle cx="${px(x)}" cy="${px(y)}" r="1.5" fill="#bdbdbd"/>`);
+      }
+    }
+
+    puzzle.obstacles?.forEach(p => {
+      const size = CELL * 0.6;
+      parts.push(`<rect x="${px(p.x) - size / 2}" y="${px(p.y) - size / 2}" width="${size}" height="${size}" rx="4" fill="#616161"/>`);
+    });
+
+    // Bridges run centre to centre, underneath the islands
+    const byId = new Map(puzzle.nodes.map(n => [n.id, n]));
+    puzzle.edges.forEach(e => {
+      const a = byId.get(e.nodeA);
+      const b = byId.get(e.nodeB);
+      if (!a || !b) return;
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const length = Math.hypot(dx, dy) || 1;
+      for (let i = 0; i < e.count; i++) {
+        const offset = (i - (e.count - 1) / 2) * LANE_SPACING;
+        const ox = (-dy / length) * offset;
+        const oy = (dx / length) * offset;
+        parts.push(`<line x1="${this.round(px(a.x) + ox)}" y1="${this.round(px(a.y) + oy)}" x2="${this.round(px(b.x) + ox)}" y2="${this.round(px(b.y) + oy)}" stroke="#212121" stroke-width="2"/>`);
+      }
+    });
+
+    puzzle.nodes.forEach(n => {
+      parts.push(`<circle cx="${px(n.x)}" cy="${px(n.y)}" r="${RADIUS}" fill="#ffffff" stroke="#212121" stroke-width="2"/>`);
+      parts.push(`<text x="${px(n.x)}" y="${px(n.y)}" text-anchor="middle" dominant-baseline="central" font-family="sans-serif" font-size="16" font-weight="bold" fill="#212121">${n.requiredConnections}</text>`);
+    });
+
+    if (caption) {
+      parts.push(`<text x="${width / 2}" y="${gridHeight + CAPTION_HEIGHT / 2}" text-anchor="middle" dominant-baseline="central" font-family="sans-serif" font-size="12" fill="#616161">${this.escape(caption)}</text>`);
+    }
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      ...parts.map(part => `  ${part}`),
+      '</svg>',
+      '',
+    ].join('\n');
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
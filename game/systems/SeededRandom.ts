@@ -0,0 +1,61 @@
+const SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to keep seeds easy to read aloud
+const SEED_LENGTH = 6;
+
+/**
+ * Small deterministic PRNG (mulberry32) so the same seed builds the same board on every machine.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: string) {
+    this.state = SeededRandom.hashSeed(seed);
+  }
+
+  /** Returns a float in [0, 1), like Math.random. */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Returns an integer in [min, max] (inclusive). */
+  public int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  /** Fisher-Yates shuffle in place. */
+  public shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /** Creates a fresh, human-friendly seed such as "K7QF3M". */
+  public static createSeed(): string {
+    let seed = '';
+    for (let i = 0; i < SEED_LENGTH; i++) {
+      seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+    }
+    return seed;
+  }
+
+  /** Normalizes typed seeds so "k7qf3m " and "K7QF3M" give the same board. */
+  public static normalizeSeed(seed: string): string {
+    return seed.trim().toUpperCase();
+  }
+
+  // FNV-1a: any string is a valid seed
+  private static hashSeed(seed: string): number {
+    const text = SeededRandom.normalizeSeed(seed);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
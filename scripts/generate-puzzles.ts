@@ -0,0 +1,245 @@
+/**
+ * Command-line puzzle generator: builds boards with PuzzleGenerator (no browser, no Phaser),
+ * checks each one and writes one file per board, e.g. for puzzle books or campaign packs.
+ *
+ *   npm run generate -- --difficulty hard --count 20 --seed BOOK --format svg --out book
+ *
+ * Board i of a batch uses the seed "<seed>-<i>", so its file name is also the puzzle ID the
+ * game accepts under "Enter puzzle ID". Run with --help for every option.
+ */
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { BoardState } from '../game/model/BoardState';
+import { HashiSolver } from '../game/systems/HashiSolver';
+import { PuzzleFile, PuzzleFormat } from '../game/systems/PuzzleFormat';
+import { GenerationReport, PuzzleGenerator } from '../game/systems/PuzzleGenerator';
+import { PuzzleSvg } from '../game/systems/PuzzleSvg';
+import { SeededRandom } from '../game/systems/SeededRandom';
+import { CUSTOM_DIFFICULTY_DEFAULT, CustomDifficulty, Difficulty, PuzzleData } from '../types';
+
+type OutputFormat = 'text' | 'json' | 'svg';
+
+const USAGE = `Usage: npm run generate -- [options]
+
+  -d, --difficulty <easy|medium|hard|custom>  Board settings (default: medium)
+  -n, --count <n>                 Boards to generate (default: 10)
+  -s, --seed <seed>               Base seed; board i uses "<seed>-<i>", a single board the seed
+                                  itself (default: a random seed)
+  -f, --format <text|json|svg>    File format (default: text; boards text can't show go to JSON)
+  -o, --out <dir>                 Output directory (default: puzzles)
+      --solutions                 Also write each board's answer as <id>.solution.<ext>
+  -h, --help                      Show this help
+
+Custom boards (--difficulty custom) take the game's custom settings:
+      --width <n> --height <n> --min-islands <n> --max-islands <n>
+      --max-connections <n> --bridges <n> --obstacles <n> --diagonal
+      --capacity <n>              Power-flow rule: houses one cable can supply (default: off)
+
+Each board is checked before it is written: its solution must follow the cable rules and
+solve it, it must have exactly one solution, and text / JSON files must read back as the
+same board. Near misses on the difficulty's score range are written with a warning;
+fallback boards and boards that fail a check are reported and skipped (exit code 1).`;
+
+interface Options {
+  difficulty: Difficulty;
+  custom?: CustomDifficulty;
+  count: number;
+  seed: string;
+  format: OutputFormat;
+  out: string;
+  solutions: boolean;
+}
+
+function parseOptions(argv: string[]): Options | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      difficulty: { type: 'string', short: 'd', default: Difficulty.MEDIUM },
+      count: { type: 'string', short: 'n', default: '10' },
+      seed: { type: 'string', short: 's' },
+      format: { type: 'string', short: 'f', default: 'text' },
+      out: { type: 'string', short: 'o', default: 'puzzles' },
+      solutions: { type: 'boolean', default: false },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      'min-islands': { type: 'string' },
+      'max-islands': { type: 'string' },
+      'max-connections': { type: 'string' },
+      bridges: { type: 'string' },
+      obstacles: { type: 'string' },
+      diagonal: { type: 'boolean', default: false },
+      capacity: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) return null;
+
+  const count = Number(values.count);
+  if (!Number.isInteger(count) || count < 1) throw new Error(`--count must be a positive whole number.`);
+  if (!['text', 'json', 'svg'].includes(values.format!)) throw new Error(`Unknown format "${values.format}".`);
+
+  // Unset custom settings fall back to the game's defaults
+  const number = (value: string | undefined, fallback: number) => {
+    if (value === undefined) return fallback;
+    const n = Number(value);
+    if (!Number.isFinite(n)) throw new Error(`"${value}" is not a number.`);
+    return n;
+  };
+
+  let difficulty: Difficulty;
+  let custom: CustomDifficulty | undefined;
+  if (values.difficulty === 'custom') {
+    const base = CUSTOM_DIFFICULTY_DEFAULT;
+    difficulty = Difficulty.MEDIUM;
+    custom = PuzzleGenerator.clampCustom({
+      width: number(values.width, base.width),
+      height: number(values.height, base.height),
+      nodeCount: [number(values['min-islands'], base.nodeCount[0]), number(values['max-islands'], base.nodeCount[1])],
+      maxConnections: number(values['max-connections'], base.maxConnections),
+      maxBridges: number(values.bridges, base.maxBridges),
+      diagonal: values.diagonal!,
+      obstacles: number(values.obstacles, base.obstacles),
+      capacity: number(values.capacity, base.capacity),
+    });
+  } else {
+    const preset = Object.values(Difficulty).find(d => d === values.difficulty);
+    if (!preset) throw new Error(`Unknown difficulty "${values.difficulty}".`);
+    difficulty = preset;
+  }
+
+  return {
+    difficulty,
+    custom,
+    count,
+    seed: SeededRandom.normalizeSeed(values.seed ?? SeededRandom.createSeed()),
+    format: values.format as OutputFormat,
+    out: values.out!,
+    solutions: values.solutions!,
+  };
+}
+
+/**
+ * What's wrong with a generated board, if anything: the answer is replayed on a BoardState
+ * with the game's own rules, and the solver confirms it is the only one.
+ */
+function findIssues(puzzle: PuzzleData): string[] {
+  const issues: string[] = [];
+  const board = new BoardState(puzzle);
+  for (const e of puzzle.solutionEdges) {
+    if (!board.canConnect(e.nodeA, e.nodeB) || e.count > puzzle.maxBridges) {
+      issues.push(`the solution's cable ${e.nodeA}-${e.nodeB} breaks the cable rules`);
+    }
+    board.setCount(e.nodeA, e.nodeB, e.count);
+  }
+  if (!board.isSolved()) issues.push(`the solution doesn't solve the board`);
+
+  const solutions = HashiSolver.solve(puzzle.nodes, {
+    maxSolutions: 2,
+    maxBridges: puzzle.maxBridges,
+    diagonal: puzzle.diagonal,
+    obstacles: puzzle.obstacles,
+    capacity: puzzle.capacity,
+  }).length;
+  if (solutions !== 1) issues.push(solutions === 0 ? 'the board has no solution' : 'the board has more than one solution');
+  return issues;
+}
+
+// File contents and extension; text falls back to JSON for boards it can't show
+function render(file: PuzzleFile, format: OutputFormat, caption: string): { content: string, extension: string } {
+  if (format === 'svg') return { content: PuzzleSvg.render(file, caption), extension: 'svg' };
+  const asText = format === 'text' && PuzzleFormat.fitsText(file);
+  return asText
+    ? { content: PuzzleFormat.toText(file) + '\n', extension: 'txt' }
+    : { content: PuzzleFormat.toJson(file) + '\n', extension: 'json' };
+}
+
+// A written text / JSON file must load back into the game as the same board
+function readsBack(content: string, file: PuzzleFile): boolean {
+  try {
+    const parsed = PuzzleFormat.parse(content);
+    const cells = (f: PuzzleFile) => f.nodes.map(n => `${n.x},${n.y}:${n.requiredConnections}`).sort().join(' ')
+      + ' # ' + (f.obstacles ?? []).map(p => `${p.x},${p.y}`).sort().join(' ');
+    const total = (f: PuzzleFile) => f.edges.reduce((sum, e) => sum + e.count, 0);
+    return parsed.width === file.width && parsed.height === file.height && cells(parsed) === cells(file) && total(parsed) === total(file) &&
+      parsed.maxBridges === file.maxBridges && !!parsed.diagonal === !!file.diagonal && (parsed.capacity ?? 0) === (file.capacity ?? 0);
+  } catch (e) {
+    return false;
+  }
+}
+
+function describe(report: GenerationReport): string {
+  const failed = report.failures > 0 ? `, ${report.failures} thrown away` : '';
+  return `score ${report.score ?? '-'}, ${report.attempts} attempt${report.attempts === 1 ? '' : 's'}${failed}`;
+}
+
+function main(): number {
+  let options: Options | null;
+  try {
+    options = parseOptions(process.argv.slice(2));
+  } catch (e) {
+    console.error(`${(e as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const { difficulty, custom, count, seed, format, out } = options;
+  mkdirSync(out, { recursive: true });
+  const settings = PuzzleGenerator.getSettings(difficulty, custom);
+  const [minScore, maxScore] = settings.scoreRange;
+  console.log(`Generating ${count} ${custom ? 'custom' : difficulty} board${count === 1 ? '' : 's'} from seed ${seed} into ${out}/`);
+
+  let written = 0;
+  let nearMisses = 0;
+  let skipped = 0;
+  for (let i = 1; i <= count; i++) {
+    const boardSeed = count === 1 ? seed : `${seed}-${i}`;
+    const id = PuzzleGenerator.getPuzzleId(difficulty, boardSeed, custom);
+    const name = id.replace(/[^A-Za-z0-9_-]/g, '_');
+    const report = PuzzleGenerator.generateWithReport(difficulty, boardSeed, custom);
+
+    if (report.outcome === 'FALLBACK') {
+      console.error(`✗ ${id}: no board could be generated (${describe(report)}); the built-in fallback is skipped`);
+      skipped++;
+      continue;
+    }
+
+    const { puzzle } = report;
+    const file: PuzzleFile = { ...puzzle, edges: [] };
+    const answer: PuzzleFile = { ...puzzle, edges: puzzle.solutionEdges };
+    const board = render(file, format, id);
+    const solution = render(answer, format, `${id} (solution)`);
+
+    const issues = findIssues(puzzle);
+    if (format !== 'svg') {
+      if (!readsBack(board.content, file)) issues.push(`the ${board.extension} file doesn't read back as the same board`);
+      if (options.solutions && !readsBack(solution.content, answer)) issues.push(`the ${solution.extension} solution doesn't read back`);
+    }
+    if (issues.length > 0) {
+      console.error(`✗ ${id}: ${issues.join('; ')}`);
+      skipped++;
+      continue;
+    }
+
+    writeFileSync(join(out, `${name}.${board.extension}`), board.content);
+    if (options.solutions) writeFileSync(join(out, `${name}.solution.${solution.extension}`), solution.content);
+    written++;
+
+    if (report.outcome === 'CLOSEST') {
+      nearMisses++;
+      const range = maxScore === Infinity ? `${minScore}+` : `${minScore}-${maxScore}`;
+      console.warn(`! ${id}: written, but its score is outside ${range} (${describe(report)})`);
+    } else {
+      console.log(`✓ ${id} (${describe(report)})`);
+    }
+  }
+
+  const misses = nearMisses > 0 ? `, ${nearMisses} outside the score range` : '';
+  console.log(`${written} of ${count} board${count === 1 ? '' : 's'} written${misses}${skipped > 0 ? `, ${skipped} skipped` : ''}.`);
+  return skipped > 0 ? 1 : 0;
+}
+
+process.exitCode = main();
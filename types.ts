@@ -10,34 +10,105 @@ export enum Theme {
   CITY = 'CITY',
 }
 
+// The classic rule: at most two cables between the same pair of houses
+export const DEFAULT_MAX_BRIDGES = 2;
+
+// Bridge rules players can pick (custom boards, the editor); text exports have symbols up to three
+export const MAX_BRIDGES_RANGE: [number, number] = [1, 3];
+
+// Houses one cable can supply under the power-flow rule (see PowerFlow)
+export const DEFAULT_CAPACITY = 4;
+export const CAPACITY_RANGE: [number, number] = [3, 8];
+
 export interface DifficultyConfig {
-  gridSize: number;
+  width: number; // Grid columns
+  height: number; // Grid rows
   nodeCount: [number, number]; // min, max
   maxConnections: number;
+  maxBridges: number; // Cables allowed between one pair of houses
+  diagonal: boolean; // Cables may also run along 45° diagonals
+  obstacles: number; // Blocked grid points scattered among the houses
+  capacity: number; // Houses one cable can supply under the power-flow rule; 0 for none
   scale: number;
+  scoreRange: [number, number]; // min, max PuzzleGrader score
 }
 
 export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultyConfig> = {
   [Difficulty.EASY]: {
-    gridSize: 5,
+    width: 5,
+    height: 5,
     nodeCount: [6, 9],
     maxConnections: 4,
+    maxBridges: DEFAULT_MAX_BRIDGES,
+    diagonal: false,
+    obstacles: 1,
+    capacity: 0,
     scale: 1.0,
+    scoreRange: [0, 10],
   },
   [Difficulty.MEDIUM]: {
-    gridSize: 7,
+    width: 7,
+    height: 7,
     nodeCount: [8, 12],
     maxConnections: 6,
+    maxBridges: DEFAULT_MAX_BRIDGES,
+    diagonal: false,
+    obstacles: 2,
+    capacity: 0,
     scale: 0.85,
+    scoreRange: [9, 24],
   },
   [Difficulty.HARD]: {
-    gridSize: 10,
+    width: 10,
+    height: 10,
     nodeCount: [12, 18],
     maxConnections: 8,
+    maxBridges: DEFAULT_MAX_BRIDGES,
+    diagonal: false,
+    obstacles: 3,
+    capacity: 0,
     scale: 0.7,
+    scoreRange: [18, Infinity],
   },
 };
 
+// Generator settings a player picks under "Custom"; any board with a unique solution is accepted
+export type CustomDifficulty = Pick<DifficultyConfig, 'width' | 'height' | 'nodeCount' | 'maxConnections' | 'maxBridges' | 'diagonal' | 'obstacles' | 'capacity'>;
+
+export const CUSTOM_DIFFICULTY_DEFAULT: CustomDifficulty = {
+  width: 8,
+  height: 6,
+  nodeCount: [8, 12],
+  maxConnections: 6,
+  maxBridges: DEFAULT_MAX_BRIDGES,
+  diagonal: false,
+  obstacles: 2,
+  capacity: 0,
+};
+
+// Bounds for custom settings, kept to what the generator reliably finds a unique board for
+// within its attempts; denser boards, diagonal ones above all, almost never have just one solution
+export const CUSTOM_DIFFICULTY_LIMITS = {
+  size: [4, 14] as [number, number],
+  diagonalSize: 10, // Largest width / height with diagonal bridges
+  maxConnections: [2, 8] as [number, number],
+  maxBridges: MAX_BRIDGES_RANGE,
+  obstacles: [0, 8] as [number, number],
+  capacity: CAPACITY_RANGE, // When the power-flow rule is on
+  nodesPerCapacity: 3, // Island cap under the power-flow rule, per house a cable can supply
+  minNodes: 2,
+  nodesPerCell: 1 / 3, // Island cap as a share of the grid points
+  maxNodes: 36, // Island cap however big the grid
+  diagonalMaxNodes: 15, // Island cap with diagonal bridges
+};
+
+// What the pieces are called in each theme (screen-reader text)
+export const THEME_NOUNS: Record<Theme, { house: string, cable: string, obstacle: string, plant: string }> = {
+  [Theme.POWER_GRID]: { house: 'house', cable: 'cable', obstacle: 'rock', plant: 'power plant' },
+  [Theme.PENGUINS]: { house: 'floe', cable: 'bridge', obstacle: 'lake', plant: 'fishery' },
+  [Theme.CITY]: { house: 'building', cable: 'street', obstacle: 'skyscraper', plant: 'power station' },
+};
+
 export interface GridPoint {
   x: number;
   y: number;
@@ -56,17 +127,93 @@ export interface NodeData {
 export interface EdgeData {
   nodeA: string;
   nodeB: string;
-  count: number; // 1 or 2
+  count: number; // 1 up to the board's maxBridges
+}
+
+// A complete board as produced by PuzzleGenerator
+export interface PuzzleData {
+  width: number;
+  height: number;
+  maxBridges: number;
+  diagonal?: boolean; // Diagonal variant; absent for classic boards
+  obstacles?: GridPoint[]; // Grid points no cable may pass over
+  capacity?: number; // Power-flow rule; absent for boards without it
+  nodes: NodeData[];
+  solutionEdges: EdgeData[];
+}
+
+// The board as the player currently sees it, mirrored to React for screen readers
+export interface BoardSnapshot {
+  width: number;
+  height: number;
+  maxBridges: number;
+  diagonal?: boolean;
+  obstacles?: GridPoint[];
+  capacity?: number;
+  nodes: NodeData[];
+  edges: EdgeData[];
+}
+
+// Editor tools: place / remove houses or obstacles, or draw the intended solution
+export type EditorTool = 'HOUSES' | 'OBSTACLES' | 'CABLES';
+
+// The board being designed (its edges are the intended solution) and what's wrong with it
+export interface EditorStatus {
+  board: BoardSnapshot;
+  issues: string[]; // Empty once every house is cabled into one network
+  solutionCount: number | null; // Capped at 2: 0 while issues remain, 2 means "more than one", null until checked
+  tooComplex: boolean; // The check ran out of solver steps, so the count stays unknown
+  score: number | null; // PuzzleGrader score of a unique board
+}
+
+// Pencil marks: a note on a pair of houses, kept apart from real cables
+export type AnnotationMark = 'AT_LEAST_ONE' | 'NO_BRIDGE';
+
+export interface AnnotationData {
+  nodeA: string;
+  nodeB: string;
+  mark: AnnotationMark;
 }
 
-export interface GameStats {
-  easy: { completed: number; time: number };
-  medium: { completed: number; time: number };
-  hard: { completed: number; time: number };
+// One entry in the undo history
+export interface CableMove {
+  kind?: 'CABLE'; // Absent in saves from before pencil marks
+  nodeAId: string;
+  nodeBId: string;
+  previousCount: number;
 }
 
+export interface AnnotationMove {
+  kind: 'ANNOTATION';
+  nodeAId: string;
+  nodeBId: string;
+  previousMark: AnnotationMark | null;
+}
+
+export type MoveAction = CableMove | AnnotationMove;
+
+// One solved puzzle, as stored in the player's profile
+export interface SolveRecord {
+  difficulty: Difficulty;
+  theme: Theme;
+  seed: string;
+  seconds: number;
+  undoCount: number;
+  hintsUsed: number;
+  solvedAt: string; // ISO timestamp
+}
+
+export interface DifficultyStats {
+  completed: number;
+  time: number; // Total seconds
+  bestTime: number | null;
+  averageTime: number | null;
+}
+
+export type GameStats = Record<Difficulty, DifficultyStats>;
+
 // Events emitted from Phaser to React
-export type GameEventType = 'PUZZLE_SOLVED' | 'TIMER_TICK' | 'PUZZLE_IMPOSSIBLE' | 'HISTORY_UPDATE';
+export type GameEventType = 'PUZZLE_SOLVED' | 'TIMER_TICK' | 'PUZZLE_IMPOSSIBLE' | 'HISTORY_UPDATE' | 'HINT' | 'CHECK_RESULT' | 'PUZZLE_EXPORTED' | 'ANNOUNCE' | 'BOARD_UPDATE' | 'EDITOR_UPDATE' | 'GENERATION_FALLBACK';
 
 export interface GameEvent {
   type: GameEventType;